@@ -1,5 +1,5 @@
 import React from 'react';
-import { BrowserRouter as Router, Route, Routes } from 'react-router-dom';
+import { BrowserRouter as Router, Navigate, Route, Routes } from 'react-router-dom';
 import HomePage from './components/Terms/HomePage';
 import ProfilePage from './components/User/ProfilePage';
 import DashboardPage from './components/Admin/DashboardPage';
@@ -7,57 +7,85 @@ import LoginPage from './components/Auth/LoginPage';
 import RegisterPage from './components/Auth/RegisterPage';
 import Navbar from './components/Navbar';
 import TermForm from './components/Terms/TermForm';
+import ImportTermsPage from './components/Terms/ImportTermsPage';
 import { AuthProvider } from './contexts/authContext';
+import { NotificationProvider } from './contexts/notificationContext';
 import UsersPage from './components/Admin/UsersPage';
-import TermsPage from './components/Admin/TermsPage';
+import ModerationQueuePage from './components/Moderation/ModerationQueuePage';
 import ProtectedRoute from './components/ProtectedRoute';
 import TermDetails from './components/Terms/TermDetails';
+import SuggestEditPage from './components/Terms/SuggestEditPage';
 import UpdateProfile from './components/User/UpdateProfile';
 import QuizPage from './components/Quiz/QuizPage';
 import FlashcardSerieParams from './components/Quiz/FlashcardSerieParams';
+import DeckExportPage from './components/Quiz/DeckExportPage';
+import QuizHistoryPage from './components/Quiz/QuizHistoryPage';
+import ProgressPage from './components/Quiz/ProgressPage';
 
 function App() {
   return (
-    <AuthProvider>
-      <Router>
-        <Navbar />
-        <Routes>
-          <Route path="/" element={<HomePage />} />
-          <Route path="/terms/:id" element={<TermDetails />} />
-          <Route path="/login" element={<LoginPage />} />
-          <Route path="/register" element={<RegisterPage />} />
+    <NotificationProvider>
+      <AuthProvider>
+        <Router>
+          <Navbar />
+          <Routes>
+            <Route path="/" element={<HomePage />} />
+            <Route path="/terms/:id" element={<TermDetails />} />
+            <Route
+              path="/terms/:id/suggest-edit"
+              element={<ProtectedRoute element={<SuggestEditPage />} capability="submit-term" />}
+            />
+            <Route path="/login" element={<LoginPage />} />
+            <Route path="/register" element={<RegisterPage />} />
 
-          {/* Routes protégées */}
-          <Route
-            path="/profile"
-            element={<ProtectedRoute element={<ProfilePage />} />}
-          />
-          <Route
-            path="/dashboard"
-            element={<ProtectedRoute element={<DashboardPage />} allowedRoles={['admin']} />}
-          />
-          <Route
-            path="/users"
-            element={<ProtectedRoute element={<UsersPage />} allowedRoles={['admin']} />}
-          />
-          <Route
-            path="/terms/flashcard-serie"
-            element={<ProtectedRoute element={<FlashcardSerieParams/>} allowedRoles={['admin', 'moderator', 'user']} />} />
-          <Route
-            path="/terms/quiz"
-            element={<ProtectedRoute element={<QuizPage />}allowedRoles={['admin','moderator','user']} />} />
+            {/* Routes protégées */}
+            <Route
+              path="/profile"
+              element={<ProtectedRoute element={<ProfilePage />} />}
+            />
+            <Route
+              path="/dashboard"
+              element={<ProtectedRoute element={<DashboardPage />} capability="view-stats" />}
+            />
+            <Route
+              path="/users"
+              element={<ProtectedRoute element={<UsersPage />} capability="manage-users" />}
+            />
+            <Route
+              path="/terms/flashcard-serie"
+              element={<ProtectedRoute element={<FlashcardSerieParams/>} capability="take-quiz" />} />
+            <Route
+              path="/terms/quiz"
+              element={<ProtectedRoute element={<QuizPage />} capability="take-quiz" />} />
+            <Route
+              path="/terms/deck-export"
+              element={<ProtectedRoute element={<DeckExportPage />} capability="take-quiz" />} />
+            <Route
+              path="/terms/quiz-history"
+              element={<ProtectedRoute element={<QuizHistoryPage />} capability="take-quiz" />} />
+            <Route
+              path="/terms/progress"
+              element={<ProtectedRoute element={<ProgressPage />} capability="take-quiz" />} />
 
-          <Route  path="/terms"
-            element={<ProtectedRoute element={<TermsPage />} allowedRoles={['admin','moderator']} />}
-          />
-          <Route
-            path="/new-term"
-            element={<ProtectedRoute element={<TermForm />} />}
-          />
-          <Route path="/update-profile" element={<ProtectedRoute element={<UpdateProfile/>}/>} />
-        </Routes>
-      </Router>
-    </AuthProvider>
+            {/* Ancienne adresse de la gestion des termes */}
+            <Route path="/terms" element={<Navigate to="/moderation" replace />} />
+            <Route
+              path="/moderation"
+              element={<ProtectedRoute element={<ModerationQueuePage />} capability="manage-terms" />}
+            />
+            <Route
+              path="/new-term"
+              element={<ProtectedRoute element={<TermForm />} capability="submit-term" />}
+            />
+            <Route
+              path="/import-terms"
+              element={<ProtectedRoute element={<ImportTermsPage />} capability="submit-term" />}
+            />
+            <Route path="/update-profile" element={<ProtectedRoute element={<UpdateProfile/>}/>} />
+          </Routes>
+        </Router>
+      </AuthProvider>
+    </NotificationProvider>
   );
 };
 
@@ -1,9 +1,11 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { approveTerm } from '../../services/termService';
 import { getAllCategories, approveCategory } from '../../services/categoryService';
 import { getAllThemes, approveTheme } from '../../services/themeService';
 import { getAllLanguages, approveLanguage, addLanguage } from '../../services/languageService';
-import { useNavigate } from 'react-router-dom';
+import { notifyError } from '../../services/notificationService';
+import { useQuery } from '../../hooks/useQuery';
+import { queryKeys } from '../../services/queryKeys';
 
 interface Category {
     _id: string;
@@ -32,45 +34,45 @@ interface Term {
     grammaticalCategory: string | Category;
     theme: string | Theme;
     language: string | Language;
-    languageCode: string;
+    languageCode?: string;
     status: string;
 }
 
 interface ApproveTermFormProps {
     term: Term;
     onCancel: () => void;
+    onApproved: () => void;
 }
 
-const ApproveTermForm: React.FC<ApproveTermFormProps> = ({ term, onCancel }) => {
-    const [updatedTerm, setUpdatedTerm] = useState<Term>({ ...term });
+const ApproveTermForm: React.FC<ApproveTermFormProps> = ({ term, onCancel, onApproved }) => {
+    const [updatedTerm, setUpdatedTerm] = useState<Term>({
+        ...term,
+        languageCode: term.languageCode ?? (typeof term.language === 'string' ? '' : term.language.code),
+    });
     const [newCategory, setNewCategory] = useState<string>('');
     const [newTheme, setNewTheme] = useState<string>('');
     const [newLanguage, setNewLanguage] = useState<{ name: string, code: string }>({ name: '', code: '' });
-    const [categories, setCategories] = useState<Category[]>([]);
-    const [themeOptions, setThemeOptions] = useState<Theme[]>([]);
-    const [languageOptions, setLanguageOptions] = useState<Language[]>([]);
     const [approveData, setApproveData] = useState<{ term: string; translation: string; definition: string; grammaticalCategory: string; theme: string; language: string; languageCode: string; }>({ term: '', translation: '', definition: '', grammaticalCategory: '', theme: '', language: '', languageCode: '' });
     const [loading, setLoading] = useState<boolean>(false);
-    const [error, setError] = useState<string | null>(null);
     const [validationErrors, setValidationErrors] = useState<string[]>([]);
-    const navigate = useNavigate();
 
-    useEffect(() => {
-        const fetchCategoriesThemesLanguages = async () => {
-            try {
-                const categoriesData = await getAllCategories();
-                const themesData = await getAllThemes();
-                const languagesData = await getAllLanguages();
-                setCategories([...categoriesData, { _id: 'other', name: 'Other', isApproved: true }]);
-                setThemeOptions([...themesData, { _id: 'other', name: 'Other', isApproved: true }]);
-                setLanguageOptions([...languagesData, { _id: 'other', name: 'Other', code: '', isApproved: true }]);
-            } catch (error) {
-                console.error('Error loading categories, themes, and languages', error);
-            }
-        };
+    // Listes complètes (approuvées ou non), invalidées après chaque approbation
+    const { data: categoriesData } = useQuery(queryKeys.allCategories, getAllCategories);
+    const { data: themesData } = useQuery(queryKeys.allThemes, getAllThemes);
+    const { data: languagesData } = useQuery(queryKeys.allLanguages, getAllLanguages);
 
-        fetchCategoriesThemesLanguages();
-    }, [navigate]);
+    const categories = useMemo<Category[]>(
+        () => categoriesData ? [...categoriesData, { _id: 'other', name: 'Other', isApproved: true }] : [],
+        [categoriesData]
+    );
+    const themeOptions = useMemo<Theme[]>(
+        () => themesData ? [...themesData, { _id: 'other', name: 'Other', isApproved: true }] : [],
+        [themesData]
+    );
+    const languageOptions = useMemo<Language[]>(
+        () => languagesData ? [...languagesData, { _id: 'other', name: 'Other', code: '', isApproved: true }] : [],
+        [languagesData]
+    );
 
     useEffect(() => {
         const updatedApproveData = {
@@ -80,7 +82,7 @@ const ApproveTermForm: React.FC<ApproveTermFormProps> = ({ term, onCancel }) =>
             grammaticalCategory: typeof updatedTerm.grammaticalCategory === 'string' ? updatedTerm.grammaticalCategory : (updatedTerm.grammaticalCategory as Category).name,
             theme: typeof updatedTerm.theme === 'string' ? updatedTerm.theme : (updatedTerm.theme as Theme).name,
             language: updatedTerm.language === 'Other' ? newLanguage.name : (updatedTerm.language as Language).name,
-            languageCode: updatedTerm.language === 'Other' ? newLanguage.code : updatedTerm.languageCode,
+            languageCode: updatedTerm.language === 'Other' ? newLanguage.code : updatedTerm.languageCode || '',
         };
         setApproveData(updatedApproveData);
     }, [updatedTerm, newLanguage]);
@@ -116,11 +118,44 @@ const ApproveTermForm: React.FC<ApproveTermFormProps> = ({ term, onCancel }) =>
         return errors.length === 0;
     };
 
-    const handleSubmit = async (e: React.FormEvent) => {
+    const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
-        setLoading(true);
-        setError(null);
+        submitApproval();
+    };
+
+    // Catégorie, thème et langue proposés doivent être approuvés avant le terme ; callApi signale déjà leurs échecs
+    const approveTaxonomy = async (finalApproveData: typeof approveData): Promise<boolean> => {
+        if ((typeof updatedTerm.grammaticalCategory === 'string' && updatedTerm.grammaticalCategory === 'Other' && newCategory) ||
+            (typeof updatedTerm.grammaticalCategory !== 'string' && !(updatedTerm.grammaticalCategory as Category).isApproved)) {
+            const categoryId = categories.find(cat => cat.name === newCategory || (typeof updatedTerm.grammaticalCategory !== 'string' && updatedTerm.grammaticalCategory.name === cat.name))?._id;
+            if (categoryId && !(await approveCategory(categoryId)).ok) {
+                return false;
+            }
+        }
+
+        if ((typeof updatedTerm.theme === 'string' && updatedTerm.theme === 'Other' && newTheme) ||
+            (typeof updatedTerm.theme !== 'string' && !(updatedTerm.theme as Theme).isApproved)) {
+            const themeId = themeOptions.find(theme => theme.name === newTheme || (typeof updatedTerm.theme !== 'string' && updatedTerm.theme.name === theme.name))?._id;
+            if (themeId && !(await approveTheme(themeId)).ok) {
+                return false;
+            }
+        }
+
+        if (typeof updatedTerm.language === 'string' && updatedTerm.language === 'Other' && newLanguage.name) {
+            const languageResult = await addLanguage(newLanguage.name, newLanguage.code);
+            if (!languageResult.ok || !(await approveLanguage(languageResult.data._id, newLanguage.code)).ok) {
+                return false;
+            }
+        }
+
+        if (typeof updatedTerm.language !== 'string') {
+            const languageId = (updatedTerm.language as Language)._id;
+            return (await approveLanguage(languageId, finalApproveData.languageCode)).ok;
+        }
+        return true;
+    };
 
+    const submitApproval = async () => {
         const finalApproveData = {
             ...approveData,
             theme: updatedTerm.theme === 'Other' ? newTheme : approveData.theme,
@@ -130,51 +165,25 @@ const ApproveTermForm: React.FC<ApproveTermFormProps> = ({ term, onCancel }) =>
         };
 
         if (!validateApproveData(finalApproveData)) {
-            setLoading(false);
             return;
         }
 
-        try {
-            // Approve new category if necessary
-            if ((typeof updatedTerm.grammaticalCategory === 'string' && updatedTerm.grammaticalCategory === 'Other' && newCategory) ||
-                (typeof updatedTerm.grammaticalCategory !== 'string' && !(updatedTerm.grammaticalCategory as Category).isApproved)) {
-                const categoryId = categories.find(cat => cat.name === newCategory || (typeof updatedTerm.grammaticalCategory !== 'string' && updatedTerm.grammaticalCategory.name === cat.name))?._id;
-                if (categoryId) {
-                    await approveCategory(categoryId);
-                }
-            }
-
-            // Approve new theme if necessary
-            if ((typeof updatedTerm.theme === 'string' && updatedTerm.theme === 'Other' && newTheme) ||
-                (typeof updatedTerm.theme !== 'string' && !(updatedTerm.theme as Theme).isApproved)) {
-                const themeId = themeOptions.find(theme => theme.name === newTheme || (typeof updatedTerm.theme !== 'string' && updatedTerm.theme.name === theme.name))?._id;
-                if (themeId) {
-                    await approveTheme(themeId);
-                }
-            }
-
-
-
-            // Approve new language if necessary
-            if ((typeof updatedTerm.language === 'string' && updatedTerm.language === 'Other' && newLanguage.name)) {
-                const data = await addLanguage(newLanguage.name, newLanguage.code);
-                await approveLanguage(data._id, newLanguage.code);
-            }
-
-            if (typeof updatedTerm.language !== 'string') {
-                const languageId = (updatedTerm.language as Language)._id;
-                await approveLanguage(languageId, finalApproveData.languageCode);
-            }
+        setLoading(true);
+        if (!(await approveTaxonomy(finalApproveData))) {
+            setLoading(false);
+            return;
+        }
 
+        const result = await approveTerm(term._id, finalApproveData, { silent: true });
+        setLoading(false);
 
-            await approveTerm(term._id, finalApproveData);
-            navigate('/dashboard');
-        } catch (error) {
-            console.error('Error submitting term', error);
-            setError('An error occurred while submitting the term.');
-        } finally {
-            setLoading(false);
+        if (!result.ok) {
+            notifyError(`"${term.term}" could not be approved.`, {
+                action: { label: 'Retry', onClick: submitApproval },
+            });
+            return;
         }
+        onApproved();
     };
 
     const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
@@ -198,7 +207,6 @@ const ApproveTermForm: React.FC<ApproveTermFormProps> = ({ term, onCancel }) =>
     return (
         <form onSubmit={handleSubmit} className="bg-gray-200 max-w-md mx-auto mt-10 p-4 rounded-lg shadow-[5px_5px_10px_#d1d9e6,-5px_-5px_10px_#ffffff]">
             <h2 className="text-2xl font-bold mb-4">Approve and Modify Term</h2>
-            {error && <div className="mb-4 text-red-500">{error}</div>}
             {validationErrors.length > 0 && (
                 <div className="mb-4 text-red-500">
                     <ul>
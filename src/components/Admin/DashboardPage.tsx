@@ -4,9 +4,11 @@ import { useAuth } from '../../contexts/authContext';
 import { Link, useNavigate } from 'react-router-dom';
 import Skeleton from 'react-loading-skeleton';
 import 'react-loading-skeleton/dist/skeleton.css';
+import Can from '../Can';
+import { Stats } from '../../models/statsModel';
 
 const DashboardPage: React.FC = () => {
-    const [stats, setStats] = useState<any>(null);
+    const [stats, setStats] = useState<Stats | null>(null);
     const { user, loading } = useAuth();
     const navigate = useNavigate();
 
@@ -17,11 +19,9 @@ const DashboardPage: React.FC = () => {
                 return;
             }
 
-            try {
-                const data = await getStats();
-                setStats(data);
-            } catch (error) {
-                console.error('Erreur de chargement des statistiques', error);
+            const result = await getStats();
+            if (result.ok) {
+                setStats(result.data);
             }
         };
 
@@ -46,9 +46,6 @@ const DashboardPage: React.FC = () => {
         );
     }
 
-    const isAdmin = user?.role === 'admin';
-    const isModerator = user?.role === 'moderator';
-
     return (
         <div className="max-w-6xl mx-auto mt-10 p-6 bg-gray-100 rounded-lg shadow-[5px_5px_10px_#d1d9e6,-5px_-5px_10px_#ffffff]">
             <h2 className="text-3xl font-bold mb-6 text-gray-800">Dashboard</h2>
@@ -77,33 +74,31 @@ const DashboardPage: React.FC = () => {
                     <h3 className="text-lg font-bold text-gray-800">Banned Users</h3>
                     <p className="text-2xl text-gray-700">{stats.bannedUserCount}</p>
                 </div>
-                {isAdmin && (
-                    <>
-                        <div className="p-4 bg-teal-200 rounded-lg shadow-[3px_3px_6px_#afeeee,-3px_-3px_6px_#ffffff]">
-                            <h3 className="text-lg font-bold text-gray-800">Admin Count</h3>
-                            <p className="text-2xl text-gray-700">{stats.adminCount}</p>
-                        </div>
-                        <div className="p-4 bg-pink-200 rounded-lg shadow-[3px_3px_6px_#ffb6c1,-3px_-3px_6px_#ffffff]">
-                            <h3 className="text-lg font-bold text-gray-800">Moderator Count</h3>
-                            <p className="text-2xl text-gray-700">{stats.moderatorCount}</p>
-                        </div>
-                    </>
-                )}
+                <Can do="view-role-stats">
+                    <div className="p-4 bg-teal-200 rounded-lg shadow-[3px_3px_6px_#afeeee,-3px_-3px_6px_#ffffff]">
+                        <h3 className="text-lg font-bold text-gray-800">Admin Count</h3>
+                        <p className="text-2xl text-gray-700">{stats.adminCount}</p>
+                    </div>
+                    <div className="p-4 bg-pink-200 rounded-lg shadow-[3px_3px_6px_#ffb6c1,-3px_-3px_6px_#ffffff]">
+                        <h3 className="text-lg font-bold text-gray-800">Moderator Count</h3>
+                        <p className="text-2xl text-gray-700">{stats.moderatorCount}</p>
+                    </div>
+                </Can>
             </div>
 
-            {isAdmin && (
+            <Can do="manage-users">
                 <div className="mt-8">
                     <h3 className="text-xl font-bold mb-4 text-gray-800">Admin Functions</h3>
                     <Link to="/users" className="text-blue-500">Manage Users</Link>
                 </div>
-            )}
+            </Can>
 
-            {isModerator && (
+            <Can do="manage-terms">
                 <div className="mt-8">
                     <h3 className="text-xl font-bold mb-4 text-gray-800">Moderator Functions</h3>
                     <Link to="/moderation" className="text-blue-500">Moderate Terms</Link>
                 </div>
-            )}
+            </Can>
         </div>
     );
 };
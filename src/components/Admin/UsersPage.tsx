@@ -2,9 +2,11 @@ import React, { useEffect, useState } from 'react';
 import { getUsers, promoteUser, banUser } from '../../services/userService';
 import { useAuth } from '../../contexts/authContext';
 import { useNavigate } from 'react-router-dom';
+import Can from '../Can';
+import { UserProfile } from '../../models/userModel';
 
 const UsersPage: React.FC = () => {
-    const [users, setUsers] = useState<any[]>([]);
+    const [users, setUsers] = useState<UserProfile[]>([]);
     const { user } = useAuth();
     const navigate = useNavigate();
 
@@ -15,11 +17,9 @@ const UsersPage: React.FC = () => {
                 return;
             }
 
-            try {
-                const data = await getUsers();
-                setUsers(data);
-            } catch (error) {
-                console.error('Erreur de chargement des utilisateurs', error);
+            const result = await getUsers();
+            if (result.ok) {
+                setUsers(result.data);
             }
         };
 
@@ -27,22 +27,18 @@ const UsersPage: React.FC = () => {
     }, [user, navigate]);
 
     const handlePromote = async (userId: string) => {
-        try {
-            await promoteUser(userId);
+        const result = await promoteUser(userId);
+        if (result.ok) {
             // Mettre à jour la liste des utilisateurs après promotion
             setUsers(users.map(u => u._id === userId ? { ...u, role: 'admin' } : u));
-        } catch (error) {
-            console.error('Erreur de promotion de l\'utilisateur', error);
         }
     };
 
     const handleBan = async (userId: string) => {
-        try {
-            await banUser(userId);
+        const result = await banUser(userId);
+        if (result.ok) {
             // Mettre à jour la liste des utilisateurs après bannissement
-            setUsers(users.map(u => u._id === userId ? { ...u, banned: true } : u));
-        } catch (error) {
-            console.error('Erreur de bannissement de l\'utilisateur', error);
+            setUsers(users.map(u => u._id === userId ? { ...u, isBanned: true } : u));
         }
     };
 
@@ -65,18 +61,22 @@ const UsersPage: React.FC = () => {
                             <td className="py-2 px-4 border-b">{user.email}</td>
                             <td className="py-2 px-4 border-b">{user.role}</td>
                             <td className="py-2 px-4 border-b flex gap-2">
-                                <button
-                                    onClick={() => handlePromote(user._id)}
-                                    className="px-4 py-2 bg-blue-500 text-white rounded-lg shadow-[5px_5px_10px_#a0a0a0,-5px_-5px_10px_#ffffff] transition-transform transform hover:scale-105 focus:outline-none"
-                                >
-                                    Promote
-                                </button>
-                                <button
-                                    onClick={() => handleBan(user._id)}
-                                    className="px-4 py-2 bg-red-500 text-white rounded-lg shadow-[5px_5px_10px_#a0a0a0,-5px_-5px_10px_#ffffff] transition-transform transform hover:scale-105 focus:outline-none"
-                                >
-                                    Ban
-                                </button>
+                                <Can do="promote-user">
+                                    <button
+                                        onClick={() => handlePromote(user._id)}
+                                        className="px-4 py-2 bg-blue-500 text-white rounded-lg shadow-[5px_5px_10px_#a0a0a0,-5px_-5px_10px_#ffffff] transition-transform transform hover:scale-105 focus:outline-none"
+                                    >
+                                        Promote
+                                    </button>
+                                </Can>
+                                <Can do="ban-user">
+                                    <button
+                                        onClick={() => handleBan(user._id)}
+                                        className="px-4 py-2 bg-red-500 text-white rounded-lg shadow-[5px_5px_10px_#a0a0a0,-5px_-5px_10px_#ffffff] transition-transform transform hover:scale-105 focus:outline-none"
+                                    >
+                                        Ban
+                                    </button>
+                                </Can>
                             </td>
                         </tr>
                     ))}
@@ -12,6 +12,8 @@ jest.mock('../../services/authService', () => ({
     getCurrentUser: jest.fn(),
     logout: jest.fn(),
     isTokenExpired: jest.fn(),
+    onSessionChange: jest.fn(),
+    refreshSession: jest.fn(),
 }));
 
 const mockNavigate = jest.fn();
@@ -75,4 +77,34 @@ describe('LoginPage', () => {
         await waitFor(() => expect(screen.queryByText(/invalid credentials/i)).not.toBeInTheDocument());
         expect(mockNavigate).toHaveBeenCalledWith('/');
     });
+
+    it('navigates back to the requested page after login', async () => {
+        const mockUserData = { username: 'testuser', token: 'fake-token', role: 'user', _id: '1' };
+        (loginService as jest.Mock).mockResolvedValue(mockUserData);
+        window.history.pushState({}, '', `/login?redirect=${encodeURIComponent('/terms/quiz?questions=20')}`);
+
+        renderWithProviders(<LoginPage />);
+
+        fireEvent.change(screen.getByPlaceholderText(/username/i), { target: { value: 'testuser' } });
+        fireEvent.change(screen.getByPlaceholderText(/password/i), { target: { value: 'testpassword' } });
+        fireEvent.click(screen.getByRole('button', { name: /login/i }));
+
+        await waitFor(() => expect(mockNavigate).toHaveBeenCalledWith('/terms/quiz?questions=20'));
+        window.history.pushState({}, '', '/');
+    });
+
+    it('ignores redirects to external sites', async () => {
+        const mockUserData = { username: 'testuser', token: 'fake-token', role: 'user', _id: '1' };
+        (loginService as jest.Mock).mockResolvedValue(mockUserData);
+        window.history.pushState({}, '', `/login?redirect=${encodeURIComponent('//evil.example.com/new-term')}`);
+
+        renderWithProviders(<LoginPage />);
+
+        fireEvent.change(screen.getByPlaceholderText(/username/i), { target: { value: 'testuser' } });
+        fireEvent.change(screen.getByPlaceholderText(/password/i), { target: { value: 'testpassword' } });
+        fireEvent.click(screen.getByRole('button', { name: /login/i }));
+
+        await waitFor(() => expect(mockNavigate).toHaveBeenCalledWith('/'));
+        window.history.pushState({}, '', '/');
+    });
 });
@@ -1,14 +1,16 @@
 import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../../contexts/authContext';
 import { login as loginService } from '../../services/authService';
 import { AxiosError } from 'axios';
+import { getSafeRedirect, REDIRECT_PARAM } from '../../utils/redirect';
 
 const LoginPage: React.FC = () => {
     const [username, setUsername] = useState('');
     const [password, setPassword] = useState('');
     const [errors, setErrors] = useState<{ username?: string, password?: string, general?: string }>({});
     const navigate = useNavigate();
+    const [searchParams] = useSearchParams();
     const { login } = useAuth();
 
     const validateForm = () => {
@@ -38,7 +40,7 @@ const LoginPage: React.FC = () => {
             const userData = await loginService({ username, password });
             if (userData) {
                 login(userData);
-                navigate('/');
+                navigate(getSafeRedirect(searchParams.get(REDIRECT_PARAM)));
             } else {
                 setErrors({ general: 'Login failed' });
                 console.error('Login failed');
@@ -0,0 +1,39 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { useAuth } from '../../contexts/authContext';
+import { Capability, CAPABILITY_LABELS, rolesWithCapability } from '../../utils/permissions';
+
+interface NotAuthorizedPageProps {
+    capability?: Capability;
+}
+
+const NotAuthorizedPage: React.FC<NotAuthorizedPageProps> = ({ capability }) => {
+    const { user } = useAuth();
+
+    return (
+        <div className="max-w-md mx-auto mt-10 p-6 bg-gray-100 rounded-lg shadow-[3px_3px_6px_#d1d9e6,-3px_-3px_6px_#ffffff]">
+            <h2 className="text-2xl font-bold mb-4 text-gray-800">403 - Access denied</h2>
+            {capability ? (
+                <>
+                    <p className="mb-2 text-gray-700">
+                        This page requires the <span className="font-semibold">{CAPABILITY_LABELS[capability]}</span> permission.
+                    </p>
+                    <p className="mb-4 text-gray-700">
+                        It is available to: {rolesWithCapability(capability).join(', ')}.
+                        {user && <> Your current role is <span className="font-semibold">{user.role}</span>.</>}
+                    </p>
+                </>
+            ) : (
+                <p className="mb-4 text-gray-700">You do not have the right permissions to view this page.</p>
+            )}
+            <Link
+                to="/"
+                className="block w-full p-3 text-center text-white rounded-lg bg-gray-400 shadow-[3px_3px_6px_#b3b3b3,-3px_-3px_6px_#ffffff] hover:bg-gray-500 focus:outline-none"
+            >
+                Back to home
+            </Link>
+        </div>
+    );
+};
+
+export default NotAuthorizedPage;
@@ -0,0 +1,69 @@
+import React from 'react';
+
+export interface BarChartDatum {
+    label: string;
+    value: number | null;
+    // Libellé court sous la barre, le libellé complet reste dans le tableau
+    shortLabel?: string;
+}
+
+interface BarChartProps {
+    title: string;
+    description?: string;
+    data: BarChartDatum[];
+    maxValue?: number;
+    formatValue?: (value: number) => string;
+    barClassName?: string;
+}
+
+// Graphique en barres accessible : les barres sont décoratives,
+// les lecteurs d'écran lisent le tableau de données équivalent.
+const BarChart: React.FC<BarChartProps> = ({
+    title,
+    description,
+    data,
+    maxValue,
+    formatValue = (value) => String(value),
+    barClassName = 'bg-blue-400',
+}) => {
+    const max = maxValue ?? Math.max(1, ...data.map(datum => datum.value ?? 0));
+
+    return (
+        <figure className="p-4 bg-gray-100 rounded-lg shadow-[3px_3px_6px_#d1d9e6,-3px_-3px_6px_#ffffff]">
+            <figcaption className="mb-2">
+                <span className="text-lg font-bold text-gray-800">{title}</span>
+                {description && <span className="block text-sm text-gray-600">{description}</span>}
+            </figcaption>
+            <div className="flex items-end gap-1 h-40" aria-hidden="true">
+                {data.map(datum => (
+                    <div key={datum.label} className="flex flex-col items-center justify-end flex-1 h-full" title={`${datum.label}: ${datum.value === null ? '-' : formatValue(datum.value)}`}>
+                        <div
+                            className={`w-full rounded-t ${barClassName}`}
+                            style={{ height: `${((datum.value ?? 0) / max) * 100}%`, minHeight: datum.value ? '2px' : 0 }}
+                        />
+                    </div>
+                ))}
+            </div>
+            <div className="flex gap-1 mt-1" aria-hidden="true">
+                {data.map(datum => (
+                    <span key={datum.label} className="flex-1 text-center text-xs text-gray-500 truncate">
+                        {datum.shortLabel ?? datum.label}
+                    </span>
+                ))}
+            </div>
+            <table className="sr-only">
+                <caption>{title}</caption>
+                <tbody>
+                    {data.map(datum => (
+                        <tr key={datum.label}>
+                            <th scope="row">{datum.label}</th>
+                            <td>{datum.value === null ? 'No data' : formatValue(datum.value)}</td>
+                        </tr>
+                    ))}
+                </tbody>
+            </table>
+        </figure>
+    );
+};
+
+export default BarChart;
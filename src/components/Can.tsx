@@ -0,0 +1,17 @@
+import React, { ReactNode } from 'react';
+import { useCan } from '../hooks/useCan';
+import { Capability } from '../utils/permissions';
+
+interface CanProps {
+    do: Capability;
+    children: ReactNode;
+    fallback?: ReactNode;
+}
+
+function Can({ do: capability, children, fallback = null }: CanProps) {
+    const can = useCan();
+
+    return <>{can(capability) ? children : fallback}</>;
+};
+
+export default Can;
@@ -2,8 +2,6 @@ import React, { useEffect, useState } from 'react';
 import { getApprovedTerms } from '../../services/termService';
 import { getCurrentUser } from '../../services/authService';
 import { useNavigate } from 'react-router-dom';
-import { AxiosError } from 'axios';
-import { handleAuthError } from '../../utils/handleAuthError';
 
 const ApprovedTermsPage: React.FC = () => {
     const [terms, setTerms] = useState<any[]>([]);
@@ -17,14 +15,9 @@ const ApprovedTermsPage: React.FC = () => {
                 return;
             }
 
-            try {
-                const response = await getApprovedTerms({});
-                setTerms(response?.terms || []);
-            } catch (error) {
-                console.error('Erreur de chargement des termes approuvés', error);
-                if (error instanceof AxiosError) {
-                    handleAuthError(error);
-                }
+            const result = await getApprovedTerms({});
+            if (result.ok) {
+                setTerms(result.data.terms);
             }
         };
 
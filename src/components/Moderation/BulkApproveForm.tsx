@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { approveTerm } from '../../services/termService';
+import { approveCategory, getAllCategories } from '../../services/categoryService';
+import { approveTheme, getAllThemes } from '../../services/themeService';
+import { approveLanguage, getAllLanguages } from '../../services/languageService';
+import { notifyError, notifySuccess } from '../../services/notificationService';
+import { queryKeys } from '../../services/queryKeys';
+import { useQuery } from '../../hooks/useQuery';
+import { Term } from '../../models/termModel';
+import { BulkAssignments, buildBulkApproval, getUnapprovedAssignments, runBulk } from '../../utils/bulkModeration';
+
+interface BulkApproveFormProps {
+    terms: Term[];
+    onDone: (approvedIds: string[]) => void;
+    onCancel: () => void;
+}
+
+const selectClassName = 'w-full p-2 bg-gray-300 rounded-lg shadow-inner focus:outline-none focus:ring-2 focus:ring-gray-500';
+
+const BulkApproveForm: React.FC<BulkApproveFormProps> = ({ terms, onDone, onCancel }) => {
+    const [shared, setShared] = useState<BulkAssignments>({});
+    const [submitting, setSubmitting] = useState(false);
+
+    // Mêmes listes complètes que le formulaire d'approbation unitaire
+    const { data: categories = [] } = useQuery(queryKeys.allCategories, getAllCategories);
+    const { data: themes = [] } = useQuery(queryKeys.allThemes, getAllThemes);
+    const { data: languages = [] } = useQuery(queryKeys.allLanguages, getAllLanguages);
+
+    // La taxonomie retenue doit être approuvée avant les termes qui l'utilisent
+    const approveAssignments = async () => {
+        const pending = getUnapprovedAssignments(terms, shared);
+        const requests = [
+            ...pending.categories.map(category => () => approveCategory(category._id)),
+            ...pending.themes.map(theme => () => approveTheme(theme._id)),
+            ...pending.languages.map(language => () => approveLanguage(language._id, language.code)),
+        ];
+        for (const request of requests) {
+            if (!(await request()).ok) {
+                return false;
+            }
+        }
+        return true;
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setSubmitting(true);
+        if (!(await approveAssignments())) {
+            setSubmitting(false);
+            return;
+        }
+        const byId = new Map(terms.map(term => [term._id, term]));
+        const { succeeded, failed } = await runBulk(
+            terms.map(term => term._id),
+            id => approveTerm(id, buildBulkApproval(byId.get(id)!, shared), { silent: true })
+        );
+        setSubmitting(false);
+        if (succeeded.length > 0) {
+            notifySuccess(`${succeeded.length} term${succeeded.length === 1 ? '' : 's'} approved.`);
+        }
+        if (failed.length > 0) {
+            notifyError(`${failed.length} term${failed.length === 1 ? '' : 's'} could not be approved.`);
+        }
+        onDone(succeeded);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="p-4 space-y-4 bg-gray-100 rounded-lg shadow-[3px_3px_6px_#d1d9e6,-3px_-3px_6px_#ffffff]">
+            <h3 className="text-xl font-bold">Approve {terms.length} term{terms.length === 1 ? '' : 's'}</h3>
+            <p className="text-sm text-gray-600">Fields left on "Keep submitted" use each term's own value.</p>
+            <div>
+                <label className="block mb-2" htmlFor="bulk-category">Grammatical Category</label>
+                <select
+                    id="bulk-category"
+                    value={shared.grammaticalCategory?._id ?? ''}
+                    onChange={(e) => setShared(current => ({ ...current, grammaticalCategory: categories.find(category => category._id === e.target.value) }))}
+                    className={selectClassName}
+                >
+                    <option value="">Keep submitted</option>
+                    {categories.map(category => (
+                        <option key={category._id} value={category._id}>{category.name}</option>
+                    ))}
+                </select>
+            </div>
+            <div>
+                <label className="block mb-2" htmlFor="bulk-theme">Theme</label>
+                <select
+                    id="bulk-theme"
+                    value={shared.theme?._id ?? ''}
+                    onChange={(e) => setShared(current => ({ ...current, theme: themes.find(theme => theme._id === e.target.value) }))}
+                    className={selectClassName}
+                >
+                    <option value="">Keep submitted</option>
+                    {themes.map(theme => (
+                        <option key={theme._id} value={theme._id}>{theme.name}</option>
+                    ))}
+                </select>
+            </div>
+            <div>
+                <label className="block mb-2" htmlFor="bulk-language">Language</label>
+                <select
+                    id="bulk-language"
+                    value={shared.language?._id ?? ''}
+                    onChange={(e) => setShared(current => ({ ...current, language: languages.find(language => language._id === e.target.value) }))}
+                    className={selectClassName}
+                >
+                    <option value="">Keep submitted</option>
+                    {languages.map(language => (
+                        <option key={language._id} value={language._id}>{language.name}{language.code && ` (${language.code})`}</option>
+                    ))}
+                </select>
+            </div>
+            <div className="flex gap-2">
+                <button
+                    type="submit"
+                    disabled={submitting}
+                    className="bg-green-500 text-white px-3 py-2 rounded-md shadow-[2px_2px_5px_#d1d9e6,-2px_-2px_5px_#ffffff] disabled:opacity-50"
+                >
+                    {submitting ? 'Approving...' : 'Approve all'}
+                </button>
+                <button type="button" onClick={onCancel} className="px-3 py-2 text-gray-700 hover:underline">
+                    Cancel
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default BulkApproveForm;
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import Skeleton from 'react-loading-skeleton';
+import 'react-loading-skeleton/dist/skeleton.css';
+import { approveEditProposal, getTermById, rejectEditProposal } from '../../services/termService';
+import { notifySuccess } from '../../services/notificationService';
+import { queryKeys } from '../../services/queryKeys';
+import { useQuery } from '../../hooks/useQuery';
+import { TermRevision } from '../../models/termModel';
+import { getChangedFields, toTermSnapshot } from '../../utils/termRevisions';
+import Can from '../Can';
+import RevisionChanges from '../Terms/RevisionChanges';
+
+interface EditProposalReviewProps {
+    proposal: TermRevision;
+    onReviewed?: (proposalId: string) => void;
+}
+
+// La proposition est comparée à la version en ligne, pas à celle que l'auteur a vue
+const EditProposalReview: React.FC<EditProposalReviewProps> = ({ proposal, onReviewed }) => {
+    const { data: term, loading, error } = useQuery(queryKeys.term(proposal.termId), () => getTermById(proposal.termId));
+    const [submitting, setSubmitting] = useState(false);
+
+    const handleDecision = async (accept: boolean) => {
+        setSubmitting(true);
+        const result = accept
+            ? await approveEditProposal(proposal.termId, proposal._id)
+            : await rejectEditProposal(proposal.termId, proposal._id);
+        setSubmitting(false);
+        if (result.ok) {
+            notifySuccess(accept ? 'The suggested edit was applied.' : 'The suggested edit was rejected.');
+            onReviewed?.(proposal._id);
+        }
+    };
+
+    if (error) {
+        return <p className="text-red-500">The term for this suggested edit could not be loaded.</p>;
+    }
+
+    if (loading || !term) {
+        return <Skeleton count={3} height={40} className="mb-2" />;
+    }
+
+    const current = toTermSnapshot(term);
+    const entry = {
+        revision: proposal,
+        previous: current,
+        changedFields: getChangedFields(current, proposal.snapshot),
+    };
+
+    return (
+        <div>
+            <p className="mb-4 text-sm text-gray-600">
+                Suggested by <span className="font-semibold">{proposal.author}</span> on {new Date(proposal.createdAt).toLocaleString()} for{' '}
+                <Link to={`/terms/${proposal.termId}`} className="underline">{term.term}</Link>
+            </p>
+            <RevisionChanges entry={entry} />
+            <div className="flex gap-2">
+                <Can do="approve-term">
+                    <button
+                        onClick={() => handleDecision(true)}
+                        disabled={submitting}
+                        className="bg-green-500 text-white px-3 py-2 rounded-md shadow-[2px_2px_5px_#d1d9e6,-2px_-2px_5px_#ffffff] disabled:opacity-50"
+                    >
+                        Accept
+                    </button>
+                </Can>
+                <Can do="reject-term">
+                    <button
+                        onClick={() => handleDecision(false)}
+                        disabled={submitting}
+                        className="bg-red-500 text-white px-3 py-2 rounded-md shadow-[2px_2px_5px_#d1d9e6,-2px_-2px_5px_#ffffff] disabled:opacity-50"
+                    >
+                        Reject
+                    </button>
+                </Can>
+            </div>
+        </div>
+    );
+};
+
+export default EditProposalReview;
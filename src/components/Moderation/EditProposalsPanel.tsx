@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+import { getEditProposals } from '../../services/termService';
+import { queryKeys } from '../../services/queryKeys';
+import { useQuery } from '../../hooks/useQuery';
+import EditProposalReview from './EditProposalReview';
+
+// Suggestions de modification sur des termes déjà approuvés
+const EditProposalsPanel: React.FC = () => {
+    const { data: proposals } = useQuery(queryKeys.editProposals, getEditProposals);
+    const [openId, setOpenId] = useState<string | null>(null);
+
+    if (!proposals || proposals.length === 0) {
+        return null;
+    }
+
+    return (
+        <section className="mb-6">
+            <h3 className="text-xl font-bold mb-2">Suggested edits ({proposals.length})</h3>
+            <ul className="space-y-2">
+                {proposals.map(proposal => {
+                    const isOpen = openId === proposal._id;
+                    return (
+                        <li key={proposal._id} className="p-3 bg-gray-100 rounded-lg shadow-[3px_3px_6px_#d1d9e6,-3px_-3px_6px_#ffffff]">
+                            <button
+                                onClick={() => setOpenId(isOpen ? null : proposal._id)}
+                                aria-expanded={isOpen}
+                                className="w-full flex justify-between text-left focus:outline-none"
+                            >
+                                <span>
+                                    <span className="font-semibold">{proposal.snapshot.term}</span>
+                                    <span className="text-sm text-gray-600"> · {proposal.author} · {new Date(proposal.createdAt).toLocaleDateString()}</span>
+                                </span>
+                                <span className="text-sm text-gray-600">{isOpen ? 'Hide' : 'Review'}</span>
+                            </button>
+                            {isOpen && (
+                                <div className="mt-4">
+                                    <EditProposalReview proposal={proposal} onReviewed={() => setOpenId(null)} />
+                                </div>
+                            )}
+                        </li>
+                    );
+                })}
+            </ul>
+        </section>
+    );
+};
+
+export default EditProposalsPanel;
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { notifySuccess } from '../../services/notificationService';
+import { Term } from '../../models/termModel';
+import ApproveTermForm from '../Admin/ApproveTermForm';
+import Can from '../Can';
+import RejectTermsForm from './RejectTermsForm';
+
+export type ModerationDecision = 'approved' | 'rejected';
+
+interface ModerationItemDetailProps {
+    term: Term;
+    decision?: ModerationDecision;
+    onDecided: (termId: string, decision: ModerationDecision) => void;
+    onClose: () => void;
+}
+
+const ModerationItemDetail: React.FC<ModerationItemDetailProps> = ({ term, decision, onDecided, onClose }) => {
+    const [rejecting, setRejecting] = useState(false);
+    const status = decision ?? term.status;
+
+    const handleRejected = (rejectedIds: string[]) => {
+        setRejecting(false);
+        if (rejectedIds.includes(term._id)) {
+            onDecided(term._id, 'rejected');
+        }
+    };
+
+    const handleApproved = () => {
+        notifySuccess(`"${term.term}" was approved.`);
+        onDecided(term._id, 'approved');
+    };
+
+    return (
+        <section aria-label={`Review ${term.term}`} className="p-4 bg-gray-100 rounded-lg shadow-[3px_3px_6px_#d1d9e6,-3px_-3px_6px_#ffffff]">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h3 className="text-xl font-bold">
+                        <Link to={`/terms/${term._id}`} className="hover:underline">{term.term}</Link>
+                    </h3>
+                    <p className="text-sm text-gray-600">
+                        {term.author ? `Submitted by ${term.author}` : 'Unknown submitter'}
+                        {term.createdAt && ` on ${new Date(term.createdAt).toLocaleString()}`}
+                    </p>
+                </div>
+                <span className="px-2 py-1 text-sm bg-gray-300 rounded-md capitalize">{status}</span>
+            </div>
+            <p className="mt-4"><span className="font-semibold">Translation:</span> {term.translation}</p>
+            <p className="mt-2"><span className="font-semibold">Definition:</span> {term.definition}</p>
+            {term.status === 'rejected' && term.rejectionReason && (
+                <p className="mt-2"><span className="font-semibold">Rejection reason:</span> {term.rejectionReason}</p>
+            )}
+
+            {status === 'pending' && (
+                <Can do="reject-term">
+                    {rejecting ? (
+                        <RejectTermsForm terms={[term]} onDone={handleRejected} onCancel={() => setRejecting(false)} />
+                    ) : (
+                        <button
+                            onClick={() => setRejecting(true)}
+                            className="mt-4 bg-red-500 text-white px-3 py-2 rounded-md shadow-[2px_2px_5px_#d1d9e6,-2px_-2px_5px_#ffffff]"
+                        >
+                            Reject
+                        </button>
+                    )}
+                </Can>
+            )}
+            {/* Un terme rejeté peut encore être approuvé après correction */}
+            {status !== 'approved' && !rejecting && (
+                <Can do="approve-term">
+                    <ApproveTermForm key={term._id} term={term} onCancel={onClose} onApproved={handleApproved} />
+                </Can>
+            )}
+        </section>
+    );
+};
+
+export default ModerationItemDetail;
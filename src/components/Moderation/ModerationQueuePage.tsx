@@ -0,0 +1,280 @@
+import React, { useMemo, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import Skeleton from 'react-loading-skeleton';
+import 'react-loading-skeleton/dist/skeleton.css';
+import { getModerationTerms } from '../../services/termService';
+import { queryKeys } from '../../services/queryKeys';
+import { useQuery } from '../../hooks/useQuery';
+import { Term } from '../../models/termModel';
+import { ModerationAge, ModerationFilters, ModerationSort, ModerationStatus } from '../../models/moderationModel';
+import {
+    getModerationFacets,
+    getModerationQueue,
+    MODERATION_AGES,
+    MODERATION_AGE_LABELS,
+    MODERATION_SORTS,
+    MODERATION_SORT_LABELS,
+    MODERATION_STATUSES,
+    MODERATION_STATUS_LABELS,
+    parseModerationFilters,
+    serializeModerationFilters,
+} from '../../utils/moderationQueue';
+import { PAGE_SIZE_OPTIONS } from '../../utils/pagination';
+import Can from '../Can';
+import Pagination from '../Pagination';
+import BulkApproveForm from './BulkApproveForm';
+import EditProposalsPanel from './EditProposalsPanel';
+import ModerationItemDetail, { ModerationDecision } from './ModerationItemDetail';
+import RejectTermsForm from './RejectTermsForm';
+
+const ITEM_PARAM = 'item';
+
+type BulkAction = 'approve' | 'reject';
+
+const bulkButtonClassName = 'text-white px-3 py-1 rounded-md shadow-[2px_2px_5px_#d1d9e6,-2px_-2px_5px_#ffffff] disabled:opacity-50';
+
+const selectClassName = 'w-full p-2 bg-gray-100 rounded-lg shadow-inner focus:outline-none focus:ring-2 focus:ring-gray-500';
+
+// Filtres et élément ouvert vivent dans l'URL pour pouvoir partager un lien vers la file
+const ModerationQueuePage: React.FC = () => {
+    const [searchParams, setSearchParams] = useSearchParams();
+    const filters = useMemo(() => parseModerationFilters(searchParams), [searchParams]);
+    const selectedId = searchParams.get(ITEM_PARAM);
+    const [currentPage, setCurrentPage] = useState(1);
+    const [pageSize, setPageSize] = useState<number>(PAGE_SIZE_OPTIONS[0]);
+    // Décisions prises depuis l'ouverture de la page, en attendant le rechargement de la file
+    const [decisions, setDecisions] = useState<Record<string, ModerationDecision>>({});
+    const [checkedIds, setCheckedIds] = useState<string[]>([]);
+    const [bulkAction, setBulkAction] = useState<BulkAction | null>(null);
+
+    const { data: terms, loading } = useQuery(
+        queryKeys.moderationQueue(filters.status),
+        () => getModerationTerms(filters.status)
+    );
+
+    const facets = useMemo(() => getModerationFacets(terms ?? []), [terms]);
+    const queue = useMemo(() => getModerationQueue(terms ?? [], filters), [terms, filters]);
+    const pageItems = queue.slice((currentPage - 1) * pageSize, currentPage * pageSize);
+    const selectedTerm = (terms ?? []).find(term => term._id === selectedId);
+    // Seuls les termes encore en attente peuvent être traités en lot
+    const isCheckable = (term: Term) => term.status === 'pending' && !decisions[term._id];
+    const checkableOnPage = pageItems.filter(isCheckable);
+    const checkedTerms = queue.filter(term => isCheckable(term) && checkedIds.includes(term._id));
+    const allOnPageChecked = checkableOnPage.length > 0 && checkableOnPage.every(term => checkedIds.includes(term._id));
+
+    const selectItem = (id: string | null) => {
+        const params = serializeModerationFilters(filters);
+        if (id) params.set(ITEM_PARAM, id);
+        setSearchParams(params);
+    };
+
+    const updateFilters = (changes: Partial<ModerationFilters>) => {
+        setSearchParams(serializeModerationFilters({ ...filters, ...changes }));
+        setCurrentPage(1);
+        setCheckedIds([]);
+        setBulkAction(null);
+    };
+
+    const toggleChecked = (id: string) => {
+        setCheckedIds(current => current.includes(id) ? current.filter(item => item !== id) : [...current, id]);
+    };
+
+    const togglePageChecked = () => {
+        const pageIds = checkableOnPage.map(term => term._id);
+        setCheckedIds(current => allOnPageChecked
+            ? current.filter(id => !pageIds.includes(id))
+            : Array.from(new Set([...current, ...pageIds])));
+    };
+
+    const handleBulkDone = (decision: ModerationDecision) => (ids: string[]) => {
+        setDecisions(current => ({ ...current, ...Object.fromEntries(ids.map(id => [id, decision])) }));
+        setCheckedIds(current => current.filter(id => !ids.includes(id)));
+        setBulkAction(null);
+    };
+
+    // On enchaîne sur l'élément suivant de la file, comme pour une boîte de réception
+    const handleDecided = (termId: string, decision: ModerationDecision) => {
+        setDecisions(current => ({ ...current, [termId]: decision }));
+        setCheckedIds(current => current.filter(id => id !== termId));
+        const index = queue.findIndex(term => term._id === termId);
+        const next = queue[index + 1] ?? queue[index - 1];
+        selectItem(index !== -1 && next ? next._id : null);
+    };
+
+    const handlePageSizeChange = (size: number) => {
+        setPageSize(size);
+        setCurrentPage(1);
+    };
+
+    return (
+        <div className="max-w-7xl mx-auto mt-10 p-6 bg-gray-200 rounded-lg shadow-[5px_5px_10px_#d1d9e6,-5px_-5px_10px_#ffffff]">
+            <h2 className="text-2xl font-bold mb-4">Moderation queue</h2>
+            <EditProposalsPanel />
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-2 mb-4">
+                <select
+                    aria-label="Status"
+                    value={filters.status}
+                    onChange={(e) => updateFilters({ status: e.target.value as ModerationStatus })}
+                    className={selectClassName}
+                >
+                    {MODERATION_STATUSES.map(status => (
+                        <option key={status} value={status}>{MODERATION_STATUS_LABELS[status]}</option>
+                    ))}
+                </select>
+                <select
+                    aria-label="Language"
+                    value={filters.language ?? ''}
+                    onChange={(e) => updateFilters({ language: e.target.value || undefined })}
+                    className={selectClassName}
+                >
+                    <option value="">All languages</option>
+                    {facets.languages.map(language => (
+                        <option key={language} value={language}>{language}</option>
+                    ))}
+                </select>
+                <select
+                    aria-label="Submitter"
+                    value={filters.submitter ?? ''}
+                    onChange={(e) => updateFilters({ submitter: e.target.value || undefined })}
+                    className={selectClassName}
+                >
+                    <option value="">All submitters</option>
+                    {facets.submitters.map(submitter => (
+                        <option key={submitter} value={submitter}>{submitter}</option>
+                    ))}
+                </select>
+                <select
+                    aria-label="Age"
+                    value={filters.age}
+                    onChange={(e) => updateFilters({ age: e.target.value as ModerationAge })}
+                    className={selectClassName}
+                >
+                    {MODERATION_AGES.map(age => (
+                        <option key={age} value={age}>{MODERATION_AGE_LABELS[age]}</option>
+                    ))}
+                </select>
+                <select
+                    aria-label="Sort by"
+                    value={filters.sort}
+                    onChange={(e) => updateFilters({ sort: e.target.value as ModerationSort })}
+                    className={selectClassName}
+                >
+                    {MODERATION_SORTS.map(sort => (
+                        <option key={sort} value={sort}>{MODERATION_SORT_LABELS[sort]}</option>
+                    ))}
+                </select>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                <div>
+                    <p className="mb-2 text-sm text-gray-600" aria-live="polite">
+                        {loading ? 'Loading the queue...' : `${queue.length} term${queue.length === 1 ? '' : 's'} in the queue`}
+                    </p>
+                    {loading ? (
+                        <Skeleton count={5} height={60} className="mb-2" />
+                    ) : queue.length === 0 ? (
+                        <p className="text-gray-600">Nothing to review with these filters.</p>
+                    ) : (
+                        <>
+                            <div className="flex flex-wrap items-center gap-2 mb-2">
+                                <label className="flex items-center gap-2 text-sm">
+                                    <input
+                                        type="checkbox"
+                                        checked={allOnPageChecked}
+                                        onChange={togglePageChecked}
+                                        disabled={checkableOnPage.length === 0}
+                                    />
+                                    Select all on this page
+                                </label>
+                                {checkedTerms.length > 0 && (
+                                    <>
+                                        <span className="text-sm text-gray-600">{checkedTerms.length} selected</span>
+                                        <Can do="approve-term">
+                                            <button onClick={() => setBulkAction('approve')} className={`bg-green-500 ${bulkButtonClassName}`}>
+                                                Approve selected
+                                            </button>
+                                        </Can>
+                                        <Can do="reject-term">
+                                            <button onClick={() => setBulkAction('reject')} className={`bg-red-500 ${bulkButtonClassName}`}>
+                                                Reject selected
+                                            </button>
+                                        </Can>
+                                    </>
+                                )}
+                            </div>
+                            <ul className="divide-y divide-gray-300 bg-gray-100 rounded-lg shadow-md">
+                                {pageItems.map(term => {
+                                    const isSelected = term._id === selectedId;
+                                    return (
+                                        <li key={term._id} className="flex items-center">
+                                            <input
+                                                type="checkbox"
+                                                aria-label={`Select ${term.term}`}
+                                                checked={checkedIds.includes(term._id)}
+                                                onChange={() => toggleChecked(term._id)}
+                                                disabled={!isCheckable(term)}
+                                                className="ml-3"
+                                            />
+                                            <button
+                                                onClick={() => selectItem(isSelected ? null : term._id)}
+                                                aria-current={isSelected ? 'true' : undefined}
+                                                className={`w-full flex items-center justify-between gap-4 p-3 text-left focus:outline-none focus:ring-2 focus:ring-gray-500 ${isSelected ? 'bg-gray-300' : 'hover:bg-gray-200'}`}
+                                            >
+                                                <span>
+                                                    <span className="font-semibold">{term.term}</span>
+                                                    <span className="block text-sm text-gray-600">
+                                                        {[term.language?.name, term.author, term.createdAt && new Date(term.createdAt).toLocaleDateString()]
+                                                            .filter(Boolean)
+                                                            .join(' · ')}
+                                                    </span>
+                                                </span>
+                                                <span className="text-sm text-gray-600 capitalize">{decisions[term._id] ?? term.status}</span>
+                                            </button>
+                                        </li>
+                                    );
+                                })}
+                            </ul>
+                        </>
+                    )}
+                    <Pagination
+                        currentPage={currentPage}
+                        pageSize={pageSize}
+                        totalItems={queue.length}
+                        onPageChange={setCurrentPage}
+                        onPageSizeChange={handlePageSizeChange}
+                        loading={loading}
+                    />
+                </div>
+                <div>
+                    {bulkAction === 'approve' && checkedTerms.length > 0 ? (
+                        <BulkApproveForm
+                            terms={checkedTerms}
+                            onDone={handleBulkDone('approved')}
+                            onCancel={() => setBulkAction(null)}
+                        />
+                    ) : bulkAction === 'reject' && checkedTerms.length > 0 ? (
+                        <div className="p-4 bg-gray-100 rounded-lg shadow-[3px_3px_6px_#d1d9e6,-3px_-3px_6px_#ffffff]">
+                            <RejectTermsForm
+                                terms={checkedTerms}
+                                onDone={handleBulkDone('rejected')}
+                                onCancel={() => setBulkAction(null)}
+                            />
+                        </div>
+                    ) : selectedTerm ? (
+                        <ModerationItemDetail
+                            key={selectedTerm._id}
+                            term={selectedTerm}
+                            decision={decisions[selectedTerm._id]}
+                            onDecided={handleDecided}
+                            onClose={() => selectItem(null)}
+                        />
+                    ) : (
+                        <p className="p-4 text-gray-600">Select a term to review it.</p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ModerationQueuePage;
@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import { rejectTerm } from '../../services/termService';
+import { notifyError, notifySuccess } from '../../services/notificationService';
+import { Term } from '../../models/termModel';
+import { runBulk } from '../../utils/bulkModeration';
+import RejectionReasonField from './RejectionReasonField';
+
+interface RejectTermsFormProps {
+    terms: Term[];
+    onDone: (rejectedIds: string[]) => void;
+    onCancel: () => void;
+}
+
+// Le même motif est envoyé pour chaque terme de la sélection
+const RejectTermsForm: React.FC<RejectTermsFormProps> = ({ terms, onDone, onCancel }) => {
+    const [reason, setReason] = useState('');
+    const [submitting, setSubmitting] = useState(false);
+    const label = terms.length === 1 ? `"${terms[0].term}"` : `${terms.length} terms`;
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const trimmed = reason.trim();
+        if (!trimmed) return;
+        setSubmitting(true);
+        const { succeeded, failed } = await runBulk(
+            terms.map(term => term._id),
+            id => rejectTerm(id, trimmed, { silent: true })
+        );
+        setSubmitting(false);
+        if (succeeded.length > 0) {
+            notifySuccess(succeeded.length === 1 && terms.length === 1 ? `${label} was rejected.` : `${succeeded.length} terms rejected.`);
+        }
+        if (failed.length > 0) {
+            notifyError(`${failed.length} term${failed.length === 1 ? '' : 's'} could not be rejected.`);
+        }
+        onDone(succeeded);
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="mt-4 space-y-4">
+            <h4 className="text-lg font-bold">Reject {label}</h4>
+            <RejectionReasonField id="rejection-reason" value={reason} onChange={setReason} />
+            <div className="flex gap-2">
+                <button
+                    type="submit"
+                    disabled={submitting || !reason.trim()}
+                    className="bg-red-500 text-white px-3 py-2 rounded-md shadow-[2px_2px_5px_#d1d9e6,-2px_-2px_5px_#ffffff] disabled:opacity-50"
+                >
+                    {submitting ? 'Rejecting...' : 'Reject'}
+                </button>
+                <button type="button" onClick={onCancel} className="px-3 py-2 text-gray-700 hover:underline">
+                    Cancel
+                </button>
+            </div>
+        </form>
+    );
+};
+
+export default RejectTermsForm;
@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { useAuth } from '../../contexts/authContext';
+import { deleteRejectionTemplate, getRejectionTemplates, saveRejectionTemplate } from '../../utils/rejectionTemplates';
+
+interface RejectionReasonFieldProps {
+    id: string;
+    value: string;
+    onChange: (reason: string) => void;
+}
+
+const linkButtonClassName = 'text-sm text-gray-600 underline disabled:opacity-50 disabled:no-underline';
+
+// Un modèle pré-remplit le motif, qui reste modifiable avant l'envoi
+const RejectionReasonField: React.FC<RejectionReasonFieldProps> = ({ id, value, onChange }) => {
+    const { user } = useAuth();
+    const userId = user?._id;
+    const [templates, setTemplates] = useState<string[]>(() => getRejectionTemplates(userId));
+    const trimmed = value.trim();
+    const isTemplate = templates.includes(trimmed);
+
+    return (
+        <div>
+            <label className="block mb-2 font-semibold" htmlFor={`${id}-template`}>Rejection reason</label>
+            <select
+                id={`${id}-template`}
+                value={isTemplate ? trimmed : ''}
+                onChange={(e) => onChange(e.target.value)}
+                className="w-full p-2 mb-2 bg-gray-300 rounded-lg shadow-inner focus:outline-none focus:ring-2 focus:ring-gray-500"
+            >
+                <option value="">Custom reason</option>
+                {templates.map(template => (
+                    <option key={template} value={template}>{template}</option>
+                ))}
+            </select>
+            <label className="sr-only" htmlFor={id}>Reason shown to the contributor</label>
+            <textarea
+                id={id}
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                placeholder="Explain to the contributor why the term is refused..."
+                className="w-full p-3 bg-gray-300 rounded-lg shadow-inner focus:outline-none focus:ring-2 focus:ring-gray-500"
+                required
+            />
+            <div className="flex gap-4">
+                <button
+                    type="button"
+                    onClick={() => setTemplates(saveRejectionTemplate(trimmed, userId))}
+                    disabled={!trimmed || isTemplate}
+                    className={linkButtonClassName}
+                >
+                    Save as template
+                </button>
+                <button
+                    type="button"
+                    onClick={() => setTemplates(deleteRejectionTemplate(trimmed, userId))}
+                    disabled={!isTemplate}
+                    className={linkButtonClassName}
+                >
+                    Remove template
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default RejectionReasonField;
@@ -1,7 +1,9 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/authContext';
-import { FaUser, FaSignOutAlt, FaSignInAlt, FaUserPlus, FaPlus, FaTachometerAlt, FaListAlt, FaCommentDots, FaChevronDown, FaBars, FaTimes, FaQuestion } from 'react-icons/fa';
+import Can from './Can';
+import NavbarSearch from './Search/NavbarSearch';
+import { FaUser, FaSignOutAlt, FaSignInAlt, FaUserPlus, FaPlus, FaTachometerAlt, FaListAlt, FaCommentDots, FaChevronDown, FaBars, FaTimes, FaQuestion, FaFileImport, FaChartLine } from 'react-icons/fa';
 import Skeleton from 'react-loading-skeleton';
 import 'react-loading-skeleton/dist/skeleton.css';
 
@@ -45,7 +47,7 @@ function Navbar() {
     }, []);
 
     return (
-        <nav className="bg-gray-200 p-4 shadow-[5px_5px_10px_#d1d9e6,-5px_-5px_10px_#ffffff]">
+        <nav className="print:hidden bg-gray-200 p-4 shadow-[5px_5px_10px_#d1d9e6,-5px_-5px_10px_#ffffff]">
             <div className="container mx-auto flex justify-between items-center">
                 <Link to="/" className="text-gray-700 text-xl font-bold flex items-center">
                     <FaCommentDots className="mr-2" />
@@ -55,6 +57,7 @@ function Navbar() {
                     {menuOpen ? <FaTimes /> : <FaBars />}
                 </button>
                 <div ref={menuRef} className={`md:flex ${menuOpen ? 'block' : 'hidden'} md:items-center md:space-x-4 absolute md:relative top-0 left-0 w-full md:w-auto bg-gray-200 md:bg-transparent p-4 md:p-0 shadow-lg md:shadow-none z-10`}>
+                    <NavbarSearch />
                     {loading ? (
                         <div className="text-gray-700 flex items-center mt-4 md:mt-0">
                             <Skeleton circle={true} height={40} width={40} />
@@ -62,26 +65,38 @@ function Navbar() {
                         </div>
                     ) : user ? (
                         <>
-                            <Link to="/new-term" className="text-gray-700 flex items-center mt-4 md:mt-0">
-                                <FaPlus className="mr-2" />
-                                New Term
-                            </Link>
-                            <Link to="/terms/flashcard-serie" className="text-gray-700 flex items-center mt-4 md:mt-0">
-                                <FaQuestion className="mr-2" />
-                                Quiz
-                            </Link>
-                            {user.role === 'admin' && (
+                            <Can do="submit-term">
+                                <Link to="/new-term" className="text-gray-700 flex items-center mt-4 md:mt-0">
+                                    <FaPlus className="mr-2" />
+                                    New Term
+                                </Link>
+                                <Link to="/import-terms" className="text-gray-700 flex items-center mt-4 md:mt-0">
+                                    <FaFileImport className="mr-2" />
+                                    Import
+                                </Link>
+                            </Can>
+                            <Can do="take-quiz">
+                                <Link to="/terms/flashcard-serie" className="text-gray-700 flex items-center mt-4 md:mt-0">
+                                    <FaQuestion className="mr-2" />
+                                    Quiz
+                                </Link>
+                                <Link to="/terms/progress" className="text-gray-700 flex items-center mt-4 md:mt-0">
+                                    <FaChartLine className="mr-2" />
+                                    Progress
+                                </Link>
+                            </Can>
+                            <Can do="view-stats">
                                 <Link to="/dashboard" className="text-gray-700 flex items-center mt-4 md:mt-0">
                                     <FaTachometerAlt className="mr-2" />
                                     Dashboard
                                 </Link>
-                            )}
-                            {(user.role === 'admin' || user.role === 'moderator') && (
-                                <Link to="/terms" className="text-gray-700 flex items-center mt-4 md:mt-0">
+                            </Can>
+                            <Can do="manage-terms">
+                                <Link to="/moderation" className="text-gray-700 flex items-center mt-4 md:mt-0">
                                     <FaListAlt className="mr-2" />
-                                    Term Management
+                                    Moderation
                                 </Link>
-                            )}
+                            </Can>
                             <div className="relative mt-4 md:mt-0" ref={dropdownRef}>
                                 <button
                                     onClick={toggleDropdown}
@@ -0,0 +1,92 @@
+import React, { useEffect } from 'react';
+import { FaCheckCircle, FaInfoCircle, FaExclamationTriangle, FaTimesCircle, FaTimes } from 'react-icons/fa';
+import { Notification, NotificationType } from '../../models/notificationModel';
+
+const DEFAULT_DURATIONS: Record<NotificationType, number> = {
+    success: 4000,
+    info: 5000,
+    warning: 6000,
+    error: 8000,
+};
+
+const TOAST_STYLES: Record<NotificationType, string> = {
+    success: 'bg-green-200 text-green-800',
+    info: 'bg-blue-200 text-blue-800',
+    warning: 'bg-yellow-200 text-yellow-800',
+    error: 'bg-red-200 text-red-800',
+};
+
+const TOAST_ICONS: Record<NotificationType, React.ReactNode> = {
+    success: <FaCheckCircle />,
+    info: <FaInfoCircle />,
+    warning: <FaExclamationTriangle />,
+    error: <FaTimesCircle />,
+};
+
+interface ToastProps {
+    notification: Notification;
+    onDismiss: (id: string) => void;
+}
+
+function Toast({ notification, onDismiss }: ToastProps) {
+    const { id, type, title, message, action } = notification;
+    const duration = notification.duration ?? DEFAULT_DURATIONS[type];
+
+    useEffect(() => {
+        if (duration <= 0) {
+            return;
+        }
+        const timer = setTimeout(() => onDismiss(id), duration);
+        return () => clearTimeout(timer);
+    }, [id, duration, onDismiss]);
+
+    const handleAction = () => {
+        action?.onClick();
+        onDismiss(id);
+    };
+
+    return (
+        <div
+            role={type === 'error' || type === 'warning' ? 'alert' : 'status'}
+            className={`flex items-start p-4 rounded-lg shadow-[3px_3px_6px_#c5c5c5,-3px_-3px_6px_#ffffff] ${TOAST_STYLES[type]}`}
+        >
+            <span className="mt-1 mr-3">{TOAST_ICONS[type]}</span>
+            <div className="flex-1">
+                {title && <p className="font-bold">{title}</p>}
+                <p>{message}</p>
+                {action && (
+                    <button
+                        onClick={handleAction}
+                        className="mt-2 px-3 py-1 bg-gray-100 text-gray-700 rounded-lg shadow-neumorphic hover:bg-gray-200 focus:outline-none"
+                    >
+                        {action.label}
+                    </button>
+                )}
+            </div>
+            <button
+                onClick={() => onDismiss(id)}
+                aria-label="Dismiss notification"
+                className="ml-3 focus:outline-none"
+            >
+                <FaTimes />
+            </button>
+        </div>
+    );
+};
+
+interface ToastContainerProps {
+    notifications: Notification[];
+    onDismiss: (id: string) => void;
+}
+
+function ToastContainer({ notifications, onDismiss }: ToastContainerProps) {
+    return (
+        <div aria-live="polite" className="fixed bottom-4 right-4 z-50 flex flex-col space-y-2 w-80">
+            {notifications.map((notification) => (
+                <Toast key={notification.id} notification={notification} onDismiss={onDismiss} />
+            ))}
+        </div>
+    );
+};
+
+export default ToastContainer;
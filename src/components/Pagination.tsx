@@ -0,0 +1,159 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { clampPage, getPageWindow, getTotalPages, PAGE_SIZE_OPTIONS } from '../utils/pagination';
+
+interface PaginationProps {
+    currentPage: number;
+    pageSize: number;
+    onPageChange: (page: number) => void;
+    // L'un ou l'autre suffit : totalItems est converti en nombre de pages
+    totalItems?: number;
+    totalPages?: number;
+    onPageSizeChange?: (pageSize: number) => void;
+    pageSizeOptions?: number[];
+    // En défilement infini, le parent ajoute la page suivante à la liste déjà affichée
+    infiniteScroll?: boolean;
+    loading?: boolean;
+}
+
+const buttonClassName = 'px-3 py-2 leading-tight border border-gray-300 rounded-lg shadow-lg focus:outline-none disabled:opacity-50';
+
+function Pagination({
+    currentPage,
+    pageSize,
+    onPageChange,
+    totalItems,
+    totalPages: totalPagesProp,
+    onPageSizeChange,
+    pageSizeOptions = PAGE_SIZE_OPTIONS,
+    infiniteScroll = false,
+    loading = false,
+}: PaginationProps) {
+    const totalPages = totalPagesProp ?? getTotalPages(totalItems ?? 0, pageSize);
+    const [jumpTo, setJumpTo] = useState<string>('');
+    const sentinelRef = useRef<HTMLDivElement>(null);
+    const hasNextPage = currentPage < totalPages;
+
+    useEffect(() => {
+        const sentinel = sentinelRef.current;
+        if (!infiniteScroll || !sentinel || !hasNextPage || loading || typeof IntersectionObserver === 'undefined') {
+            return;
+        }
+        const observer = new IntersectionObserver((entries) => {
+            if (entries.some(entry => entry.isIntersecting)) {
+                onPageChange(currentPage + 1);
+            }
+        });
+        observer.observe(sentinel);
+        return () => observer.disconnect();
+    }, [infiniteScroll, hasNextPage, loading, currentPage, onPageChange]);
+
+    const goTo = (page: number) => {
+        const target = clampPage(page, totalPages);
+        if (target !== currentPage) {
+            onPageChange(target);
+        }
+    };
+
+    const handleJump = (e: React.FormEvent) => {
+        e.preventDefault();
+        const page = Number(jumpTo);
+        if (Number.isFinite(page) && page > 0) {
+            goTo(page);
+        }
+        setJumpTo('');
+    };
+
+    const pageSizeSelect = onPageSizeChange && (
+        <label className="flex items-center gap-2 text-gray-600">
+            Per page
+            <select
+                value={pageSize}
+                onChange={(e) => onPageSizeChange(Number(e.target.value))}
+                className="p-2 rounded-lg bg-gray-200 shadow-inner focus:outline-none focus:ring-2 focus:ring-gray-400"
+            >
+                {pageSizeOptions.map(size => (
+                    <option key={size} value={size}>{size}</option>
+                ))}
+            </select>
+        </label>
+    );
+
+    if (infiniteScroll) {
+        return (
+            <div className="mt-4 flex flex-col items-center gap-2">
+                <div ref={sentinelRef} aria-hidden="true" />
+                {hasNextPage ? (
+                    <button
+                        onClick={() => onPageChange(currentPage + 1)}
+                        disabled={loading}
+                        className={`${buttonClassName} text-gray-500 bg-gray-100 hover:bg-gray-200`}
+                    >
+                        {loading ? 'Loading...' : 'Load more'}
+                    </button>
+                ) : (
+                    <p className="text-gray-500">No more results.</p>
+                )}
+                {pageSizeSelect}
+            </div>
+        );
+    }
+
+    return (
+        <nav className="mt-4 flex flex-wrap items-center gap-4" aria-label="Pagination">
+            <ul className="inline-flex items-center gap-1">
+                <li>
+                    <button
+                        onClick={() => goTo(currentPage - 1)}
+                        disabled={currentPage <= 1}
+                        aria-label="Previous page"
+                        className={`${buttonClassName} text-gray-500 bg-gray-100 hover:bg-gray-200`}
+                    >
+                        &lsaquo;
+                    </button>
+                </li>
+                {getPageWindow(currentPage, totalPages).map((item, index) => (
+                    <li key={item === 'ellipsis' ? `ellipsis-${index}` : item}>
+                        {item === 'ellipsis' ? (
+                            <span className="px-2 text-gray-500">&hellip;</span>
+                        ) : (
+                            <button
+                                onClick={() => goTo(item)}
+                                aria-current={item === currentPage ? 'page' : undefined}
+                                className={`${buttonClassName} ${item === currentPage ? 'bg-blue-500 text-white' : 'text-gray-500 bg-gray-100 hover:bg-gray-200 hover:text-gray-700'}`}
+                            >
+                                {item}
+                            </button>
+                        )}
+                    </li>
+                ))}
+                <li>
+                    <button
+                        onClick={() => goTo(currentPage + 1)}
+                        disabled={!hasNextPage}
+                        aria-label="Next page"
+                        className={`${buttonClassName} text-gray-500 bg-gray-100 hover:bg-gray-200`}
+                    >
+                        &rsaquo;
+                    </button>
+                </li>
+            </ul>
+            {totalPages > 1 && (
+                <form onSubmit={handleJump} className="flex items-center gap-2 text-gray-600">
+                    <label htmlFor="pagination-jump">Go to page</label>
+                    <input
+                        id="pagination-jump"
+                        type="number"
+                        min={1}
+                        max={totalPages}
+                        value={jumpTo}
+                        onChange={(e) => setJumpTo(e.target.value)}
+                        className="w-20 p-2 rounded-lg bg-gray-200 shadow-inner focus:outline-none focus:ring-2 focus:ring-gray-400"
+                    />
+                </form>
+            )}
+            {pageSizeSelect}
+        </nav>
+    );
+}
+
+export default Pagination;
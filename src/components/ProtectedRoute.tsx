@@ -1,25 +1,31 @@
 import React, { ReactNode } from 'react';
-import { Navigate } from 'react-router-dom';
+import { Navigate, useLocation } from 'react-router-dom';
 import { useAuth } from '../contexts/authContext';
+import { buildLoginPath } from '../utils/redirect';
+import { Capability } from '../utils/permissions';
+import { useCan } from '../hooks/useCan';
+import NotAuthorizedPage from './Auth/NotAuthorizedPage';
 
 interface ProtectedRouteProps {
     element: ReactNode;
-    allowedRoles?: string[]; //todo suppr nullabilité
+    capability?: Capability;
 }
 
-function ProtectedRoute({ element, allowedRoles }: ProtectedRouteProps){
+function ProtectedRoute({ element, capability }: ProtectedRouteProps){
     const { user, loading } = useAuth();
+    const location = useLocation();
+    const can = useCan();
 
     if (loading) {
         return <div>Loading...</div>;
     }
 
     if (!user) {
-        return <Navigate to="/login" />;
+        return <Navigate to={buildLoginPath(location.pathname, location.search)} replace />;
     }
 
-    if (allowedRoles && !allowedRoles.includes(user.role)) {
-        return <Navigate to="/" />;
+    if (capability && !can(capability)) {
+        return <NotAuthorizedPage capability={capability} />;
     }
 
     return <>{element}</>;
@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import { useLocation } from 'react-router-dom';
+import { getAllBookmarks, getFlashcards, getQuiz } from '../../services/termService';
+import { notifyInfo } from '../../services/notificationService';
+import { ApiResult } from '../../services/apiClient';
+import { downloadFile } from '../../utils/download';
+import { DeckCard, flashcardToCard, termToCard, toAnkiText, toDeckCsv, toPrintSheets } from '../../utils/deckExport';
+
+type DeckSource = 'bookmarks' | 'quiz';
+
+interface DeckExportState {
+    flashcardIds?: string[];
+}
+
+const PRINT_COLUMNS = 2;
+const PRINT_ROWS = 4;
+
+const fetchDeck = async (deckSource: DeckSource, numberOfCards: number, ids?: string[]): Promise<ApiResult<DeckCard[]>> => {
+    if (deckSource === 'bookmarks') {
+        const result = await getAllBookmarks();
+        return result.ok ? { ok: true, data: result.data.map(termToCard) } : result;
+    }
+    let flashcardIds = ids;
+    if (!flashcardIds) {
+        const quizResult = await getQuiz(numberOfCards.toString());
+        if (!quizResult.ok) {
+            return quizResult;
+        }
+        flashcardIds = quizResult.data;
+    }
+    const result = await getFlashcards(flashcardIds);
+    return result.ok ? { ok: true, data: result.data.map(flashcardToCard) } : result;
+};
+
+const DeckExportPage: React.FC = () => {
+    const location = useLocation();
+    // QuizPage transmet la série en cours pour pouvoir l'exporter telle quelle
+    const quizIds = (location.state as DeckExportState | null)?.flashcardIds;
+    const [source, setSource] = useState<DeckSource>(quizIds ? 'quiz' : 'bookmarks');
+    const [numberOfCards, setNumberOfCards] = useState<number>(quizIds?.length ?? 20);
+    const [cards, setCards] = useState<DeckCard[]>([]);
+    const [loading, setLoading] = useState<boolean>(true);
+
+    const deckName = source === 'bookmarks' ? 'Kuma bookmarks' : 'Kuma quiz';
+
+    const loadCards = async (deckSource: DeckSource, ids?: string[]) => {
+        setLoading(true);
+        setCards([]);
+        const result = await fetchDeck(deckSource, numberOfCards, ids);
+        if (result.ok) {
+            setCards(result.data);
+        }
+        setLoading(false);
+    };
+
+    useEffect(() => {
+        let active = true;
+        fetchDeck(quizIds ? 'quiz' : 'bookmarks', quizIds?.length ?? 0, quizIds).then(result => {
+            if (active && result.ok) {
+                setCards(result.data);
+            }
+            if (active) {
+                setLoading(false);
+            }
+        });
+        return () => {
+            active = false;
+        };
+    }, [quizIds]);
+
+    const handleSourceChange = (deckSource: DeckSource) => {
+        setSource(deckSource);
+        if (deckSource === 'bookmarks') {
+            loadCards(deckSource);
+        } else {
+            setCards([]);
+        }
+    };
+
+    const handleDownload = (format: 'anki' | 'csv') => {
+        if (cards.length === 0) {
+            notifyInfo('There are no cards to export.');
+            return;
+        }
+        const fileName = deckName.toLowerCase().replace(/\s+/g, '-');
+        if (format === 'anki') {
+            downloadFile(toAnkiText(cards, deckName), `${fileName}.txt`, 'text/plain');
+        } else {
+            downloadFile(toDeckCsv(cards), `${fileName}.csv`, 'text/csv');
+        }
+    };
+
+    const sheets = toPrintSheets(cards, PRINT_COLUMNS, PRINT_ROWS);
+
+    return (
+        <div className="max-w-4xl mx-auto mt-10 p-6 bg-gray-100 shadow-lg rounded-lg print:shadow-none print:p-0 print:mt-0 print:max-w-none">
+            <div className="print:hidden">
+                <h2 className="text-2xl font-bold mb-4">Export flashcards</h2>
+                <div className="flex flex-wrap gap-2 mb-4">
+                    {(['bookmarks', 'quiz'] as DeckSource[]).map(option => (
+                        <button
+                            key={option}
+                            onClick={() => handleSourceChange(option)}
+                            className={`px-4 py-2 rounded-lg focus:outline-none ${source === option ? 'bg-gray-500 text-white shadow-[3px_3px_6px_#b8b8b8,-3px_-3px_6px_#ffffff]' : 'bg-gray-200 text-gray-600 shadow-[3px_3px_6px_#d1d9e6,-3px_-3px_6px_#ffffff]'}`}
+                        >
+                            {option === 'bookmarks' ? 'My bookmarks' : 'Quiz set'}
+                        </button>
+                    ))}
+                </div>
+                {source === 'quiz' && (
+                    <div className="flex items-end gap-2 mb-4">
+                        <label className="flex flex-col text-gray-800">
+                            Number of cards
+                            <input
+                                type="number"
+                                min="1"
+                                max="50"
+                                value={numberOfCards}
+                                onChange={(e) => setNumberOfCards(Number(e.target.value))}
+                                className="mt-1 p-2 bg-gray-200 rounded-lg shadow-inner focus:outline-none focus:ring-2 focus:ring-gray-500"
+                            />
+                        </label>
+                        <button
+                            onClick={() => loadCards('quiz')}
+                            disabled={loading}
+                            className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg shadow-[3px_3px_6px_#d1d9e6,-3px_-3px_6px_#ffffff] hover:bg-gray-300 focus:outline-none"
+                        >
+                            Draw a new set
+                        </button>
+                    </div>
+                )}
+                <p className="mb-4 text-gray-600">{loading ? 'Loading cards...' : `${cards.length} cards ready.`}</p>
+                <div className="flex flex-wrap gap-2 mb-6">
+                    <button
+                        onClick={() => handleDownload('anki')}
+                        disabled={loading || cards.length === 0}
+                        className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg shadow-[3px_3px_6px_#d1d9e6,-3px_-3px_6px_#ffffff] hover:bg-gray-300 focus:outline-none disabled:opacity-50"
+                    >
+                        Anki deck (.txt)
+                    </button>
+                    <button
+                        onClick={() => handleDownload('csv')}
+                        disabled={loading || cards.length === 0}
+                        className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg shadow-[3px_3px_6px_#d1d9e6,-3px_-3px_6px_#ffffff] hover:bg-gray-300 focus:outline-none disabled:opacity-50"
+                    >
+                        CSV
+                    </button>
+                    <button
+                        onClick={() => window.print()}
+                        disabled={loading || cards.length === 0}
+                        className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg shadow-[3px_3px_6px_#d1d9e6,-3px_-3px_6px_#ffffff] hover:bg-gray-300 focus:outline-none disabled:opacity-50"
+                    >
+                        Print / save as PDF
+                    </button>
+                </div>
+                <p className="mb-4 text-sm text-gray-500">
+                    Print double-sided, flipping on the long edge: each translation lands behind its term.
+                </p>
+            </div>
+
+            {sheets.map((sheet, index) => (
+                <React.Fragment key={index}>
+                    {[sheet.fronts, sheet.backs].map((side, sideIndex) => (
+                        <section
+                            key={sideIndex}
+                            aria-label={`Sheet ${index + 1}, ${sideIndex === 0 ? 'front' : 'back'}`}
+                            className="print-sheet grid grid-cols-2 gap-0 mb-6 print:mb-0 border border-dashed border-gray-300"
+                        >
+                            {side.map((card, cardIndex) => (
+                                <div
+                                    key={cardIndex}
+                                    className="flashcard-cell flex justify-center items-center p-4 bg-white border border-dashed border-gray-300 text-center"
+                                >
+                                    {card && (
+                                        <span className={sideIndex === 0 ? 'text-xl font-bold' : 'text-xl'}>
+                                            {sideIndex === 0 ? card.front : card.back}
+                                        </span>
+                                    )}
+                                </div>
+                            ))}
+                        </section>
+                    ))}
+                </React.Fragment>
+            ))}
+        </div>
+    );
+};
+
+export default DeckExportPage;
@@ -1,32 +1,251 @@
-import React, { useState } from 'react';
-import { useNavigate } from 'react-router-dom';
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAuth } from '../../contexts/authContext';
+import { getDueCardIds } from '../../services/reviewService';
+import { getLastUnfinishedSession } from '../../services/quizSessionService';
+import { getCategories } from '../../services/categoryService';
+import { getThemes } from '../../services/themeService';
+import { getLanguages } from '../../services/languageService';
+import { queryKeys } from '../../services/queryKeys';
+import { useQuery } from '../../hooks/useQuery';
+import { Category } from '../../models/categoryModel';
+import { Theme } from '../../models/themeModel';
+import { Language } from '../../models/languageModel';
+import { QuizPreset, QuizSession, QuizSettings, QuizSource } from '../../models/quizModel';
+import {
+    DEFAULT_QUIZ_SETTINGS,
+    QUIZ_MODES,
+    QUIZ_MODE_LABELS,
+    QUIZ_SOURCES,
+    QUIZ_SOURCE_LABELS,
+    serializeQuizSettings,
+} from '../../utils/quiz';
+import { deleteQuizPreset, getQuizPresets, saveQuizPreset } from '../../utils/quizPresets';
+
+const selectClassName = 'w-full p-3 bg-gray-200 border-none rounded-lg shadow-inner focus:outline-none focus:ring-2 focus:ring-gray-500';
+const buttonClassName = 'px-4 py-2 bg-gray-200 text-gray-700 rounded-lg shadow-[3px_3px_6px_#d1d9e6,-3px_-3px_6px_#ffffff] hover:bg-gray-300 transition-transform transform hover:scale-105 focus:outline-none disabled:opacity-50 disabled:hover:scale-100';
 
 const FlashcardSerieParams: React.FC = () => {
-    const [numberOfQuestions, setNumberOfQuestions] = useState<number>(10);
+    const [settings, setSettings] = useState<QuizSettings>(DEFAULT_QUIZ_SETTINGS);
     const navigate = useNavigate();
+    const { user } = useAuth();
+    const userId = user?._id;
+    const dueCount = useMemo(() => (userId ? getDueCardIds(userId).length : 0), [userId]);
+    const [presets, setPresets] = useState<QuizPreset[]>(() => getQuizPresets(userId));
+    const [presetName, setPresetName] = useState('');
+    const [lastSession, setLastSession] = useState<QuizSession | null>(null);
+
+    useEffect(() => {
+        if (!userId) return;
+        let active = true;
+        getLastUnfinishedSession(userId).then(session => {
+            if (active) setLastSession(session);
+        });
+        return () => {
+            active = false;
+        };
+    }, [userId]);
+
+    // Mêmes listes approuvées que les filtres de la page d'accueil, via le cache de requêtes
+    const categoriesQuery = useQuery(queryKeys.approvedCategories, getCategories);
+    const themesQuery = useQuery(queryKeys.approvedThemes, getThemes);
+    const languagesQuery = useQuery(queryKeys.approvedLanguages, getLanguages);
+
+    const categories = useMemo(
+        () => (categoriesQuery.data ?? []).filter((category: Category) => category.isApproved),
+        [categoriesQuery.data]
+    );
+    const themes = useMemo(
+        () => (themesQuery.data ?? []).filter((theme: Theme) => theme.isApproved),
+        [themesQuery.data]
+    );
+    const languages = useMemo(
+        () => (languagesQuery.data ?? []).filter((language: Language) => language.isApproved),
+        [languagesQuery.data]
+    );
+
+    const updateSettings = (changes: Partial<QuizSettings>) => {
+        setSettings(current => ({ ...current, ...changes }));
+    };
+
+    const startQuiz = (quizSettings: QuizSettings) => {
+        navigate(`/terms/quiz?${serializeQuizSettings(quizSettings)}`);
+    };
 
     const handleStartQuiz = () => {
-        navigate(`/terms/quiz?questions=${numberOfQuestions}`);
+        startQuiz(settings);
+    };
+
+    const handleReviewDueCards = () => {
+        startQuiz({ ...settings, source: 'due' });
+    };
+
+    const handleSavePreset = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!presetName.trim()) return;
+        setPresets(saveQuizPreset(presetName, settings, userId));
+        setPresetName('');
+    };
+
+    const handleDeletePreset = (id: string) => {
+        setPresets(deleteQuizPreset(id, userId));
     };
 
     return (
         <div className="max-w-3xl mx-auto mt-10 p-6 bg-gray-100 shadow-lg rounded-lg">
-            <h2 className="text-2xl font-bold mb-4">Set Quiz Parameters </h2>
-            <label className="block mb-2 text-lg">Number of Questions</label>
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-2xl font-bold">Set Quiz Parameters </h2>
+                <Link to="/terms/quiz-history" className="text-gray-600 underline">Quiz history</Link>
+            </div>
+            {lastSession && (
+                <button
+                    onClick={() => navigate(`/terms/quiz?session=${lastSession.id}`)}
+                    className={`w-full mb-6 ${buttonClassName}`}
+                >
+                    Resume last session ({QUIZ_MODE_LABELS[lastSession.settings.mode]}, card {lastSession.currentIndex + 1} of {lastSession.flashcardIds.length})
+                </button>
+            )}
+            <label className="block mb-2 text-lg" htmlFor="quiz-questions">Number of Questions</label>
             <input
+                id="quiz-questions"
                 type="number"
-                value={numberOfQuestions}
-                onChange={(e) => setNumberOfQuestions(Number(e.target.value))}
-                className="w-full p-3 bg-gray-200 border-none rounded-lg shadow-inner focus:outline-none focus:ring-2 focus:ring-gray-500 mb-4"
+                value={settings.numberOfQuestions}
+                onChange={(e) => updateSettings({ numberOfQuestions: Number(e.target.value) })}
+                className={`${selectClassName} mb-4`}
                 min="1"
                 max="50"
             />
-            <button
-                onClick={handleStartQuiz}
-                className="w-full px-4 py-2 bg-gray-200 text-gray-700 rounded-lg shadow-[3px_3px_6px_#d1d9e6,-3px_-3px_6px_#ffffff] hover:bg-gray-300 transition-transform transform hover:scale-105 focus:outline-none"
+            <label className="block mb-2 text-lg" htmlFor="quiz-source">Terms</label>
+            <select
+                id="quiz-source"
+                value={settings.source}
+                onChange={(e) => updateSettings({ source: e.target.value as QuizSource })}
+                className={`${selectClassName} mb-4`}
             >
+                {QUIZ_SOURCES.map(source => (
+                    <option key={source} value={source}>{QUIZ_SOURCE_LABELS[source]}</option>
+                ))}
+            </select>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+                <select
+                    aria-label="Language"
+                    value={settings.language ?? ''}
+                    onChange={(e) => updateSettings({ language: e.target.value || undefined })}
+                    className={selectClassName}
+                >
+                    <option value="">All languages</option>
+                    {languages.map(language => (
+                        <option key={language._id} value={language.name}>{language.name}</option>
+                    ))}
+                </select>
+                <select
+                    aria-label="Theme"
+                    value={settings.theme ?? ''}
+                    onChange={(e) => updateSettings({ theme: e.target.value || undefined })}
+                    className={selectClassName}
+                >
+                    <option value="">All themes</option>
+                    {themes.map(theme => (
+                        <option key={theme._id} value={theme.name}>{theme.name}</option>
+                    ))}
+                </select>
+                <select
+                    aria-label="Grammatical category"
+                    value={settings.category ?? ''}
+                    onChange={(e) => updateSettings({ category: e.target.value || undefined })}
+                    className={selectClassName}
+                >
+                    <option value="">All categories</option>
+                    {categories.map(category => (
+                        <option key={category._id} value={category.name}>{category.name}</option>
+                    ))}
+                </select>
+            </div>
+            <fieldset className="mb-4">
+                <legend className="block mb-2 text-lg">Quiz mode</legend>
+                <div className="flex flex-wrap gap-4">
+                    {QUIZ_MODES.map(quizMode => (
+                        <label key={quizMode} className="flex items-center gap-2">
+                            <input
+                                type="radio"
+                                name="quiz-mode"
+                                value={quizMode}
+                                checked={settings.mode === quizMode}
+                                onChange={() => updateSettings({ mode: quizMode })}
+                            />
+                            {QUIZ_MODE_LABELS[quizMode]}
+                        </label>
+                    ))}
+                </div>
+            </fieldset>
+            <label className="flex items-center gap-2 mb-4">
+                <input
+                    type="checkbox"
+                    checked={settings.direction === 'reverse'}
+                    onChange={(e) => updateSettings({ direction: e.target.checked ? 'reverse' : 'forward' })}
+                />
+                Reverse direction (translation → term)
+            </label>
+            <button onClick={handleStartQuiz} className={`w-full ${buttonClassName}`}>
                 Start Quiz
             </button>
+            <button
+                onClick={handleReviewDueCards}
+                disabled={dueCount === 0}
+                className={`w-full mt-4 ${buttonClassName}`}
+            >
+                Review due cards ({dueCount})
+            </button>
+
+            <div className="mt-8">
+                <h3 className="text-lg font-bold mb-2">Presets</h3>
+                <form onSubmit={handleSavePreset} className="flex gap-2 mb-4">
+                    <label htmlFor="preset-name" className="sr-only">Preset name</label>
+                    <input
+                        id="preset-name"
+                        type="text"
+                        value={presetName}
+                        onChange={(e) => setPresetName(e.target.value)}
+                        placeholder="Name these settings..."
+                        className={`flex-1 ${selectClassName}`}
+                    />
+                    <button type="submit" disabled={!presetName.trim()} className={buttonClassName}>
+                        Save preset
+                    </button>
+                </form>
+                {presets.length === 0 ? (
+                    <p className="text-sm text-gray-600">No saved presets yet.</p>
+                ) : (
+                    <ul className="divide-y divide-gray-200 bg-white rounded-lg shadow-md">
+                        {presets.map(preset => (
+                            <li key={preset.id} className="flex items-center justify-between gap-2 p-3">
+                                <div>
+                                    <span className="font-bold">{preset.name}</span>
+                                    <span className="block text-sm text-gray-600">
+                                        {preset.settings.numberOfQuestions} questions · {QUIZ_MODE_LABELS[preset.settings.mode]} · {QUIZ_SOURCE_LABELS[preset.settings.source]}
+                                        {[preset.settings.language, preset.settings.theme, preset.settings.category]
+                                            .filter(Boolean)
+                                            .map(value => ` · ${value}`)
+                                            .join('')}
+                                    </span>
+                                </div>
+                                <div className="flex gap-2">
+                                    <button onClick={() => startQuiz(preset.settings)} className={buttonClassName}>
+                                        Launch
+                                    </button>
+                                    <button
+                                        onClick={() => handleDeletePreset(preset.id)}
+                                        aria-label={`Delete preset ${preset.name}`}
+                                        className="px-3 py-2 text-red-600 hover:underline focus:outline-none"
+                                    >
+                                        Delete
+                                    </button>
+                                </div>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+            </div>
         </div>
     );
 };
@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import Skeleton from 'react-loading-skeleton';
+import { Flashcard } from '../../models/termModel';
+import { QuizAnswer, QuizDirection } from '../../models/quizModel';
+import { getQuizChoices } from '../../services/quizService';
+import { getExpectedAnswer } from '../../utils/quiz';
+import TypedAnswerQuestion from './TypedAnswerQuestion';
+
+interface MultipleChoiceQuestionProps {
+    card: Flashcard;
+    direction: QuizDirection;
+    answer?: QuizAnswer;
+    onAnswer: (given: string) => void;
+}
+
+const MultipleChoiceQuestion: React.FC<MultipleChoiceQuestionProps> = ({ card, direction, answer, onAnswer }) => {
+    const [choices, setChoices] = useState<string[] | null>(null);
+    const [failed, setFailed] = useState(false);
+    const expected = getExpectedAnswer(card, direction);
+
+    useEffect(() => {
+        let active = true;
+        setChoices(null);
+        setFailed(false);
+        getQuizChoices(card, direction).then(result => {
+            if (!active) return;
+            if (result.ok) {
+                setChoices(result.data);
+            } else {
+                setFailed(true);
+            }
+        });
+        return () => {
+            active = false;
+        };
+    }, [card, direction]);
+
+    // Sans propositions, la question reste jouable en réponse libre
+    if (failed) {
+        return <TypedAnswerQuestion card={card} direction={direction} answer={answer} onAnswer={onAnswer} />;
+    }
+
+    if (!choices) {
+        return (
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 w-full">
+                {Array.from({ length: 4 }, (_, index) => <Skeleton key={index} height={40} />)}
+            </div>
+        );
+    }
+
+    const choiceClassName = (choice: string) => {
+        if (!answer) return 'bg-gray-200 hover:bg-gray-300';
+        if (choice === expected) return 'bg-green-200';
+        if (choice === answer.given) return 'bg-red-200';
+        return 'bg-gray-200 opacity-60';
+    };
+
+    return (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 w-full" role="group" aria-label="Choose the right answer">
+            {choices.map(choice => (
+                <button
+                    key={choice}
+                    onClick={() => onAnswer(choice)}
+                    disabled={!!answer}
+                    className={`px-4 py-2 text-gray-700 rounded-lg shadow-neumorphic focus:outline-none focus:ring-2 focus:ring-gray-500 ${choiceClassName(choice)}`}
+                >
+                    {choice}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+export default MultipleChoiceQuestion;
@@ -0,0 +1,157 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import Skeleton from 'react-loading-skeleton';
+import 'react-loading-skeleton/dist/skeleton.css';
+import { useAuth } from '../../contexts/authContext';
+import { getQuizSessions } from '../../services/quizSessionService';
+import { getReviewStates } from '../../services/reviewService';
+import { getSearchCandidates } from '../../services/searchService';
+import { QuizSession } from '../../models/quizModel';
+import { Term } from '../../models/termModel';
+import BarChart from '../BarChart';
+import {
+    collectAttempts,
+    getDailyActivity,
+    getMastery,
+    getStreaks,
+    getUpcomingReviews,
+    MasteryGroup,
+} from '../../utils/learningStats';
+
+const ACTIVITY_DAYS = 14;
+const UPCOMING_DAYS = 7;
+
+const formatDay = (day: string) =>
+    new Date(`${day}T12:00:00`).toLocaleDateString(undefined, { weekday: 'short', day: 'numeric', month: 'short' });
+
+const shortDay = (day: string) => String(new Date(`${day}T12:00:00`).getDate());
+
+const StatCard: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+    <div className="p-4 bg-gray-100 rounded-lg shadow-[3px_3px_6px_#d1d9e6,-3px_-3px_6px_#ffffff]">
+        <h3 className="text-sm font-bold text-gray-600">{label}</h3>
+        <p className="text-2xl text-gray-800">{value}</p>
+    </div>
+);
+
+const MasteryList: React.FC<{ title: string; groups: MasteryGroup[] }> = ({ title, groups }) => (
+    <section className="p-4 bg-gray-100 rounded-lg shadow-[3px_3px_6px_#d1d9e6,-3px_-3px_6px_#ffffff]">
+        <h3 className="text-lg font-bold text-gray-800">{title}</h3>
+        <p className="mb-2 text-sm text-gray-600">Share of studied cards you got right last time</p>
+        {groups.length === 0 ? (
+            <p className="text-sm text-gray-600">No cards studied yet.</p>
+        ) : (
+            <ul className="space-y-2">
+                {groups.map(group => (
+                    <li key={group.name}>
+                        <div className="flex justify-between text-sm">
+                            <span>{group.name}</span>
+                            <span>{group.mastered} / {group.studied} ({group.percent}%)</span>
+                        </div>
+                        <div
+                            role="progressbar"
+                            aria-label={`${group.name} mastery`}
+                            aria-valuemin={0}
+                            aria-valuemax={100}
+                            aria-valuenow={group.percent}
+                            className="h-2 bg-gray-200 rounded-full shadow-inner"
+                        >
+                            <div className="h-full bg-green-400 rounded-full" style={{ width: `${group.percent}%` }} />
+                        </div>
+                    </li>
+                ))}
+            </ul>
+        )}
+    </section>
+);
+
+const ProgressPage: React.FC = () => {
+    const { user } = useAuth();
+    const userId = user?._id;
+    const [sessions, setSessions] = useState<QuizSession[]>([]);
+    const [termsById, setTermsById] = useState<Map<string, Term>>(new Map());
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        if (!userId) return;
+        let active = true;
+        // Les termes approuvés (en cache) donnent la langue et le thème de chaque carte
+        Promise.all([getQuizSessions(userId), getSearchCandidates({})]).then(([quizSessions, terms]) => {
+            if (!active) return;
+            setSessions(quizSessions);
+            if (terms.ok) {
+                setTermsById(new Map(terms.data.map(term => [term._id, term])));
+            }
+            setLoading(false);
+        });
+        return () => {
+            active = false;
+        };
+    }, [userId]);
+
+    const attempts = useMemo(() => collectAttempts(sessions), [sessions]);
+    const activity = useMemo(() => getDailyActivity(attempts, ACTIVITY_DAYS), [attempts]);
+    const streaks = useMemo(() => getStreaks(attempts), [attempts]);
+    const upcoming = useMemo(
+        () => (userId ? getUpcomingReviews(Object.values(getReviewStates(userId)), UPCOMING_DAYS) : []),
+        [userId]
+    );
+    const languageMastery = useMemo(() => getMastery(attempts, termsById, 'language'), [attempts, termsById]);
+    const themeMastery = useMemo(() => getMastery(attempts, termsById, 'theme'), [attempts, termsById]);
+
+    const reviewedCount = activity.reduce((total, day) => total + day.reviewed, 0);
+    const correctCount = activity.reduce((total, day) => total + day.correct, 0);
+    const accuracy = reviewedCount ? `${Math.round((correctCount / reviewedCount) * 100)}%` : '-';
+
+    return (
+        <div className="max-w-6xl mx-auto mt-10 p-6 bg-gray-100 rounded-lg shadow-[5px_5px_10px_#d1d9e6,-5px_-5px_10px_#ffffff]">
+            <div className="flex items-center justify-between mb-6">
+                <h2 className="text-3xl font-bold text-gray-800">My progress</h2>
+                <Link to="/terms/flashcard-serie" className="text-gray-600 underline">Start a quiz</Link>
+            </div>
+            {loading ? (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    {Array.from({ length: 4 }, (_, index) => <Skeleton key={index} height={200} />)}
+                </div>
+            ) : (
+                <>
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-6">
+                        <StatCard label={`Cards reviewed (${ACTIVITY_DAYS} days)`} value={String(reviewedCount)} />
+                        <StatCard label={`Accuracy (${ACTIVITY_DAYS} days)`} value={accuracy} />
+                        <StatCard label="Current streak" value={`${streaks.current} day${streaks.current === 1 ? '' : 's'}`} />
+                        <StatCard label="Best streak" value={`${streaks.best} day${streaks.best === 1 ? '' : 's'}`} />
+                        <StatCard label="Due today" value={String(upcoming[0]?.count ?? 0)} />
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+                        <BarChart
+                            title="Cards reviewed per day"
+                            description={`Last ${ACTIVITY_DAYS} days`}
+                            data={activity.map(day => ({ label: formatDay(day.day), shortLabel: shortDay(day.day), value: day.reviewed }))}
+                            formatValue={value => `${value} cards`}
+                        />
+                        <BarChart
+                            title="Accuracy per day"
+                            description="Share of correct answers"
+                            data={activity.map(day => ({ label: formatDay(day.day), shortLabel: shortDay(day.day), value: day.accuracy }))}
+                            maxValue={100}
+                            formatValue={value => `${value}%`}
+                            barClassName="bg-green-400"
+                        />
+                        <BarChart
+                            title="Upcoming reviews"
+                            description={`Next ${UPCOMING_DAYS} days, overdue cards count for today`}
+                            data={upcoming.map(day => ({ label: formatDay(day.day), shortLabel: shortDay(day.day), value: day.count }))}
+                            formatValue={value => `${value} cards`}
+                            barClassName="bg-purple-400"
+                        />
+                    </div>
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                        <MasteryList title="Mastery by language" groups={languageMastery} />
+                        <MasteryList title="Mastery by theme" groups={themeMastery} />
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ProgressPage;
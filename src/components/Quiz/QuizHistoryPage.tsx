@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import Skeleton from 'react-loading-skeleton';
+import 'react-loading-skeleton/dist/skeleton.css';
+import { useAuth } from '../../contexts/authContext';
+import { getQuizSessions } from '../../services/quizSessionService';
+import { QuizSession } from '../../models/quizModel';
+import { formatDuration, getQuizScore, QUIZ_MODE_LABELS, QUIZ_SOURCE_LABELS } from '../../utils/quiz';
+
+const QuizHistoryPage: React.FC = () => {
+    const { user } = useAuth();
+    const userId = user?._id;
+    const [sessions, setSessions] = useState<QuizSession[]>([]);
+    const [loading, setLoading] = useState(true);
+
+    useEffect(() => {
+        if (!userId) return;
+        let active = true;
+        getQuizSessions(userId).then(result => {
+            if (!active) return;
+            setSessions(result);
+            setLoading(false);
+        });
+        return () => {
+            active = false;
+        };
+    }, [userId]);
+
+    return (
+        <div className="max-w-3xl mx-auto mt-10 p-6 bg-gray-100 shadow-lg rounded-lg">
+            <div className="flex items-center justify-between mb-4">
+                <h2 className="text-2xl font-bold">Quiz history</h2>
+                <Link to="/terms/flashcard-serie" className="text-gray-600 underline">New quiz</Link>
+            </div>
+            {loading ? (
+                <Skeleton count={5} height={60} className="mb-2" />
+            ) : sessions.length === 0 ? (
+                <p className="text-gray-600">You haven't taken any quiz yet.</p>
+            ) : (
+                <ul className="divide-y divide-gray-200 bg-white rounded-lg shadow-md">
+                    {sessions.map(session => {
+                        const score = getQuizScore(session.answers);
+                        return (
+                            <li key={session.id} className="flex items-center justify-between gap-4 p-3">
+                                <div>
+                                    <span className="font-bold">{new Date(session.startedAt).toLocaleString()}</span>
+                                    <span className="block text-sm text-gray-600">
+                                        {QUIZ_MODE_LABELS[session.settings.mode]} · {QUIZ_SOURCE_LABELS[session.settings.source]} · {session.flashcardIds.length} cards
+                                    </span>
+                                </div>
+                                <div className="text-right">
+                                    {session.finishedAt ? (
+                                        <>
+                                            <span className="font-bold">{score.percent}%</span>
+                                            <span className="block text-sm text-gray-600">
+                                                {score.correct} / {score.total} · {formatDuration(session.finishedAt - session.startedAt)}
+                                            </span>
+                                        </>
+                                    ) : (
+                                        <span className="text-sm text-gray-600">
+                                            In progress ({session.currentIndex + 1} / {session.flashcardIds.length})
+                                        </span>
+                                    )}
+                                    <Link to={`/terms/quiz?session=${session.id}`} className="block text-sm text-gray-600 underline">
+                                        {session.finishedAt ? 'View results' : 'Resume'}
+                                    </Link>
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default QuizHistoryPage;
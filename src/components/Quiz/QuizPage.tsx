@@ -1,63 +1,145 @@
-import React, { useEffect, useState, useCallback } from 'react';
-import { getQuiz, getFlashcardById } from '../../services/termService';
-import { handleAuthError } from '../../utils/handleAuthError';
-import { AxiosError } from 'axios';
-import { Term } from '../../models/termModel';
-import { useLocation } from 'react-router-dom';
+import React, { useEffect, useState, useCallback, useRef } from 'react';
+import { getFlashcardById } from '../../services/termService';
+import { getQuizCardIds } from '../../services/quizService';
+import { Flashcard } from '../../models/termModel';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import { useAuth } from '../../contexts/authContext';
+import { recordReview } from '../../services/reviewService';
+import { ReviewGrade } from '../../models/reviewModel';
+import { REVIEW_GRADES, REVIEW_GRADE_LABELS } from '../../utils/sm2';
+import { QuizAnswer, QuizSession, QuizSettings } from '../../models/quizModel';
+import { createQuizSession, getQuizSession, saveQuizSession } from '../../services/quizSessionService';
+import {
+    DEFAULT_QUIZ_SETTINGS,
+    getExpectedAnswer,
+    getPrompt,
+    isAnswerCorrect,
+    parseQuizSettings,
+    QUIZ_SOURCE_LABELS,
+    serializeQuizSettings,
+} from '../../utils/quiz';
+import MultipleChoiceQuestion from './MultipleChoiceQuestion';
+import TypedAnswerQuestion from './TypedAnswerQuestion';
+import QuizResults from './QuizResults';
+import ShortcutHelp from './ShortcutHelp';
+import { useKeyboardShortcuts } from '../../hooks/useKeyboardShortcuts';
+import { useSwipe } from '../../hooks/useSwipe';
 import Skeleton from 'react-loading-skeleton';
 import 'react-loading-skeleton/dist/skeleton.css';
 
 
 const QuizPage: React.FC = () => {
     const [flashcardIds, setFlashcardIds] = useState<string[]>([]);
-    const [currentFlashcard, setCurrentFlashcard] = useState<Term | null>(null);
-    const [nextFlashcard, setNextFlashcard] = useState<Term | null>(null);
-    const [prevFlashcard, setPrevFlashcard] = useState<Term | null>(null);
+    const [currentFlashcard, setCurrentFlashcard] = useState<Flashcard | null>(null);
+    const [nextFlashcard, setNextFlashcard] = useState<Flashcard | null>(null);
+    const [prevFlashcard, setPrevFlashcard] = useState<Flashcard | null>(null);
     const [currentIndex, setCurrentIndex] = useState(0);
     const [isFlipped, setIsFlipped] = useState(false);
     const [isAnimating, setIsAnimating] = useState(false);
-    const [isFading, setIsFading] = useState(false);
     const [loading, setLoading] = useState(true);
+    const [answers, setAnswers] = useState<QuizAnswer[]>([]);
+    const [startedAt, setStartedAt] = useState(0);
+    const [finishedAt, setFinishedAt] = useState<number | null>(null);
+    const [settings, setSettings] = useState<QuizSettings>(DEFAULT_QUIZ_SETTINGS);
+    const [sessionId, setSessionId] = useState<string | null>(null);
+    const [sessionMissing, setSessionMissing] = useState(false);
+    // Session que l'on vient de créer : inutile de la recharger quand l'URL change
+    const sessionIdRef = useRef<string | null>(null);
+    const [showHelp, setShowHelp] = useState(false);
+    const cardRef = useRef<HTMLDivElement>(null);
+    const { user } = useAuth();
     const location = useLocation();
-    const queryParams = new URLSearchParams(location.search);
-    const numberOfQuestions = Number(queryParams.get('questions')) || 10;
+    const navigate = useNavigate();
+    const { mode, direction } = settings;
+    // "Retry missed terms" rejoue une liste de cartes précise
+    const retryIds = (location.state as { flashcardIds?: string[] } | null)?.flashcardIds;
+    const userId = user?._id;
+    const { search } = location;
 
+    const fetchFlashcard = useCallback(async (id: string, setState: React.Dispatch<React.SetStateAction<Flashcard | null>>) => {
+        const result = await getFlashcardById(id);
+        if (result.ok) {
+            setState(result.data);
+        }
+    }, []);
+
+    const restoreSession = useCallback((session: QuizSession) => {
+        const { flashcardIds: ids, currentIndex: index } = session;
+        sessionIdRef.current = session.id;
+        setSessionId(session.id);
+        setSettings(session.settings);
+        setFlashcardIds(ids);
+        setCurrentIndex(index);
+        setIsFlipped(session.isFlipped);
+        setAnswers(session.answers);
+        setStartedAt(session.startedAt);
+        setFinishedAt(session.finishedAt ?? null);
+        if (index < ids.length) fetchFlashcard(ids[index], setCurrentFlashcard);
+        if (index + 1 < ids.length) fetchFlashcard(ids[index + 1], setNextFlashcard);
+        if (index > 0) fetchFlashcard(ids[index - 1], setPrevFlashcard);
+    }, [fetchFlashcard]);
+
+    // ?session=<id> reprend une session enregistrée, sinon on tire une nouvelle série
     const fetchQuiz = useCallback(async () => {
-        try {
-            const ids = await getQuiz(numberOfQuestions.toString());
-            if (ids) {
-                setFlashcardIds(ids);
-                fetchFlashcard(ids[0], setCurrentFlashcard);
-                if (ids.length > 1) fetchFlashcard(ids[1], setNextFlashcard);
-            }
-        } catch (error) {
-            if (error instanceof AxiosError) {
-                handleAuthError(error);
+        const params = new URLSearchParams(search);
+        const requestedSessionId = params.get('session');
+        if (requestedSessionId && requestedSessionId === sessionIdRef.current) return;
+
+        setLoading(true);
+        setSessionMissing(false);
+        setCurrentFlashcard(null);
+        setPrevFlashcard(null);
+        setNextFlashcard(null);
+
+        if (requestedSessionId) {
+            const session = userId ? await getQuizSession(userId, requestedSessionId) : null;
+            if (session) {
+                restoreSession(session);
             } else {
-                console.error('Unexpected error:', error);
+                setSessionMissing(true);
             }
-        } finally {
             setLoading(false);
+            return;
         }
-    }, [numberOfQuestions]);
-
-    const fetchFlashcard = useCallback(async (id: string, setState: React.Dispatch<React.SetStateAction<Term | null>>) => {
-        try {
-            const flashcard = await getFlashcardById(id);
-            setState(flashcard);
-        } catch (error) {
-            if (error instanceof AxiosError) {
-                handleAuthError(error);
-            } else {
-                console.error('Unexpected error:', error);
+
+        const quizSettings = parseQuizSettings(params);
+        let ids: string[] = [];
+        if (retryIds) {
+            ids = retryIds;
+        } else {
+            const result = await getQuizCardIds(quizSettings, userId);
+            if (result.ok) {
+                ids = result.data;
             }
         }
-    }, []);
+        const session = createQuizSession(quizSettings, ids);
+        restoreSession(session);
+        setLoading(false);
+        if (ids.length > 0) {
+            navigate(`/terms/quiz?session=${session.id}`, { replace: true });
+        }
+    }, [search, retryIds, userId, navigate, restoreSession]);
 
     useEffect(() => {
         fetchQuiz();
     }, [fetchQuiz]);
 
+    // Chaque changement est enregistré pour reprendre la session après un rechargement
+    useEffect(() => {
+        if (!userId || !sessionId || loading || flashcardIds.length === 0) return;
+        saveQuizSession(userId, {
+            id: sessionId,
+            settings,
+            flashcardIds,
+            currentIndex,
+            isFlipped,
+            answers,
+            startedAt,
+            updatedAt: Date.now(),
+            finishedAt: finishedAt ?? undefined,
+        });
+    }, [userId, sessionId, loading, settings, flashcardIds, currentIndex, isFlipped, answers, startedAt, finishedAt]);
+
     const handleNext = () => {
         if (isAnimating) return;
 
@@ -100,33 +182,182 @@ const QuizPage: React.FC = () => {
         }, 300);
     };
 
+    const isLastCard = currentIndex === flashcardIds.length - 1;
+    const currentAnswer = answers.find(answer => answer.card._id === currentFlashcard?._id);
+
+    const recordAnswer = (given: string, correct: boolean) => {
+        if (!currentFlashcard) return;
+        const answer = { card: currentFlashcard, given, correct };
+        // Revenir sur une carte remplace la réponse précédente
+        setAnswers(current => [...current.filter(item => item.card._id !== answer.card._id), answer]);
+    };
+
+    const handleContinue = () => {
+        if (isLastCard) {
+            setFinishedAt(Date.now());
+        } else {
+            handleNext();
+        }
+    };
+
+    const handleGrade = (grade: ReviewGrade) => {
+        if (!currentFlashcard || isAnimating) return;
+        if (userId) {
+            recordReview(userId, currentFlashcard._id, grade);
+        }
+        recordAnswer(REVIEW_GRADE_LABELS[grade], grade !== 'again');
+        handleContinue();
+    };
+
+    // Les modes notés alimentent aussi la répétition espacée
+    const handleAnswer = (given: string) => {
+        if (!currentFlashcard || currentAnswer) return;
+        const correct = isAnswerCorrect(given, getExpectedAnswer(currentFlashcard, direction));
+        if (userId) {
+            recordReview(userId, currentFlashcard._id, correct ? 'good' : 'again');
+        }
+        recordAnswer(given, correct);
+    };
+
+    const handleRetry = (missedIds: string[]) => {
+        navigate(`/terms/quiz?${serializeQuizSettings(settings)}`, { state: { flashcardIds: missedIds } });
+    };
+
     const handleFlip = () => {
         if (isAnimating) return;
         setTimeout(() => {
-            setIsFlipped(!isFlipped);
+            setIsFlipped(flipped => !flipped);
         }, 300);
     };
 
+    const goToNext = () => {
+        if (!isLastCard) handleNext();
+    };
+
+    const goToPrevious = () => {
+        if (currentIndex > 0) handlePrevious();
+    };
+
+    const toggleHelp = () => setShowHelp(visible => !visible);
+
+    const gradeShortcuts = Object.fromEntries(
+        REVIEW_GRADES.map((grade, index) => [String(index + 1), () => isFlipped && handleGrade(grade)])
+    );
+
+    useKeyboardShortcuts(
+        mode === 'flashcards'
+            ? { ' ': handleFlip, ArrowRight: goToNext, ArrowLeft: goToPrevious, '?': toggleHelp, ...gradeShortcuts }
+            : { ArrowRight: () => currentAnswer && handleContinue(), '?': toggleHelp },
+        !!currentFlashcard && finishedAt === null && !showHelp
+    );
+
+    const swipeHandlers = useSwipe({ onSwipeLeft: goToNext, onSwipeRight: goToPrevious });
+
+    // Après un changement de carte, le focus reste sur la carte pour les lecteurs d'écran
+    const currentCardId = currentFlashcard?._id;
+    useEffect(() => {
+        if (currentCardId && mode === 'flashcards') {
+            cardRef.current?.focus();
+        }
+    }, [currentCardId, mode]);
+
     return (
         <div className="max-w-3xl mx-auto mt-10 p-6 bg-gray-100 shadow-lg rounded-lg">
-            {currentFlashcard ? (
+            {finishedAt !== null ? (
+                <QuizResults
+                    answers={answers}
+                    duration={finishedAt - startedAt}
+                    direction={direction}
+                    onRetry={handleRetry}
+                />
+            ) : !loading && (sessionMissing || flashcardIds.length === 0) ? (
+                <div className="flex flex-col items-center text-center">
+                    <p className="mb-4 text-gray-600">
+                        {sessionMissing
+                            ? 'This quiz session could not be found.'
+                            : settings.source === 'due'
+                            ? 'No cards are due for review. Come back later!'
+                            : `No flashcards match this quiz (${QUIZ_SOURCE_LABELS[settings.source].toLowerCase()}).`}
+                    </p>
+                    <Link to="/terms/flashcard-serie" className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg shadow-neumorphic">
+                        Back to quiz settings
+                    </Link>
+                </div>
+            ) : currentFlashcard && mode !== 'flashcards' ? (
                 <div className="relative flex flex-col items-center">
+                    <p className="mb-2 text-sm text-gray-600">Question {currentIndex + 1} / {flashcardIds.length}</p>
                     <div
-                        className={`flip-card-inner cursor-pointer ${isFlipped ? 'rotate-y-180' : ''} ${isAnimating ? 'animate-slide' : ''}`}
+                        className={`flex justify-center items-center w-full max-w-sm h-48 mb-4 bg-white shadow-md rounded-lg p-4 ${isAnimating ? 'opacity-0' : 'opacity-100'} transition-opacity duration-300`}
+                    >
+                        <h3 className="text-xl font-bold text-center">{getPrompt(currentFlashcard, direction)}</h3>
+                    </div>
+                    {mode === 'multipleChoice' ? (
+                        <MultipleChoiceQuestion card={currentFlashcard} direction={direction} answer={currentAnswer} onAnswer={handleAnswer} />
+                    ) : (
+                        <TypedAnswerQuestion card={currentFlashcard} direction={direction} answer={currentAnswer} onAnswer={handleAnswer} />
+                    )}
+                    <div aria-live="polite" className="mt-4 min-h-[1.5rem] text-center">
+                        {currentAnswer && (currentAnswer.correct ? (
+                            <p className="font-bold text-green-700">Correct!</p>
+                        ) : (
+                            <p className="font-bold text-red-600">
+                                Missed. The answer was: {getExpectedAnswer(currentFlashcard, direction)}
+                            </p>
+                        ))}
+                    </div>
+                    <button
+                        onClick={handleContinue}
+                        disabled={!currentAnswer || isAnimating}
+                        className="mt-4 px-4 py-2 bg-gray-200 text-gray-600 font-bold rounded-lg shadow-neumorphic transition-transform transform hover:scale-105 focus:outline-none disabled:opacity-50"
+                    >
+                        {isLastCard ? 'See results' : 'Next'}
+                    </button>
+                </div>
+            ) : currentFlashcard ? (
+                <div className="relative flex flex-col items-center">
+                    <p className="mb-2 text-sm text-gray-600" aria-hidden="true">Card {currentIndex + 1} / {flashcardIds.length}</p>
+                    <div
+                        ref={cardRef}
+                        role="button"
+                        tabIndex={0}
+                        aria-label={isFlipped ? 'Flip back to the question' : 'Flip to reveal the answer'}
+                        className={`flip-card-inner cursor-pointer focus:outline-none focus:ring-2 focus:ring-gray-500 rounded-lg ${isFlipped ? 'rotate-y-180' : ''} ${isAnimating ? 'animate-slide' : ''}`}
                         onClick={handleFlip}
+                        onKeyDown={(e) => e.key === 'Enter' && handleFlip()}
+                        {...swipeHandlers}
                         style={{ width: '300px', height: '400px' }}
                     >
-                        <div className="flip-card-front flex justify-center items-center w-full h-full bg-white shadow-md rounded-lg p-4">
+                        <div aria-hidden={isFlipped} className="flip-card-front flex justify-center items-center w-full h-full bg-white shadow-md rounded-lg p-4">
                             <h3 className={`text-xl font-bold mb-4 ${isAnimating ? 'opacity-0' : 'opacity-100'} transition-opacity duration-500`}>
-                                {currentFlashcard.term}
+                                {getPrompt(currentFlashcard, direction)}
                             </h3>
                         </div>
-                        <div className="flip-card-back flex justify-center items-center w-full h-full bg-white shadow-md rounded-lg p-4">
+                        <div aria-hidden={!isFlipped} className="flip-card-back flex justify-center items-center w-full h-full bg-white shadow-md rounded-lg p-4">
                             <h3 className={`text-xl font-bold mb-2 ${isAnimating ? 'opacity-0' : 'opacity-100'} transition-opacity duration-500`}>
-                                {currentFlashcard.translation}
+                                {getExpectedAnswer(currentFlashcard, direction)}
                             </h3>
                         </div>
                     </div>
+                    <p className="sr-only" aria-live="polite">
+                        {isFlipped
+                            ? `Answer: ${getExpectedAnswer(currentFlashcard, direction)}`
+                            : `Card ${currentIndex + 1} of ${flashcardIds.length}: ${getPrompt(currentFlashcard, direction)}`}
+                    </p>
+                    {isFlipped && (
+                        <div className="mt-4 flex flex-wrap justify-center gap-2" role="group" aria-label="How well did you remember?">
+                            {REVIEW_GRADES.map(grade => (
+                                <button
+                                    key={grade}
+                                    onClick={() => handleGrade(grade)}
+                                    disabled={isAnimating}
+                                    className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg shadow-neumorphic transition-transform transform hover:scale-105 focus:outline-none"
+                                >
+                                    {REVIEW_GRADE_LABELS[grade]}
+                                    <kbd className="ml-2 text-xs text-gray-500" aria-hidden="true">{REVIEW_GRADES.indexOf(grade) + 1}</kbd>
+                                </button>
+                            ))}
+                        </div>
+                    )}
                     <div className="mt-4 flex justify-between w-full px-6">
                         <button
                             onClick={handlePrevious}
@@ -138,11 +369,23 @@ const QuizPage: React.FC = () => {
                         <button
                             onClick={handleNext}
                             className="px-4 py-2 bg-gray-200 text-gray-600 font-bold rounded-lg shadow-neumorphic transition-transform transform hover:scale-105 focus:outline-none"
-                            disabled={currentIndex === flashcardIds.length - 1 || isAnimating}
+                            disabled={isLastCard || isAnimating}
                         >
                             Next
                         </button>
                     </div>
+                    <button
+                        onClick={() => navigate('/terms/deck-export', { state: { flashcardIds } })}
+                        className="mt-4 text-sm text-gray-600 underline focus:outline-none"
+                    >
+                        Export this set as flashcards
+                    </button>
+                    <button
+                        onClick={toggleHelp}
+                        className="mt-2 text-sm text-gray-600 underline focus:outline-none"
+                    >
+                        Keyboard shortcuts (?)
+                    </button>
                 </div>
             ) : (
                 <div className="relative flex flex-col items-center">
@@ -163,6 +406,7 @@ const QuizPage: React.FC = () => {
                     </div>
                 </div>
             )}
+            {showHelp && <ShortcutHelp onClose={() => setShowHelp(false)} />}
         </div>
     );
 };
@@ -0,0 +1,66 @@
+import React, { useEffect, useRef } from 'react';
+import { Link } from 'react-router-dom';
+import { QuizAnswer, QuizDirection } from '../../models/quizModel';
+import { formatDuration, getExpectedAnswer, getPrompt, getQuizScore } from '../../utils/quiz';
+
+interface QuizResultsProps {
+    answers: QuizAnswer[];
+    duration: number;
+    direction: QuizDirection;
+    onRetry: (flashcardIds: string[]) => void;
+}
+
+const QuizResults: React.FC<QuizResultsProps> = ({ answers, duration, direction, onRetry }) => {
+    const score = getQuizScore(answers);
+    const missed = answers.filter(answer => !answer.correct);
+    const headingRef = useRef<HTMLHeadingElement>(null);
+
+    // Le lecteur d'écran annonce directement le bilan
+    useEffect(() => {
+        headingRef.current?.focus();
+    }, []);
+
+    return (
+        <div className="flex flex-col items-center text-center">
+            <h2 ref={headingRef} tabIndex={-1} className="text-2xl font-bold mb-2 focus:outline-none">Session complete</h2>
+            <p className="text-4xl font-bold text-gray-700 mb-1">{score.percent}%</p>
+            <p className="mb-1 text-gray-600">{score.correct} / {score.total} correct</p>
+            <p className="mb-4 text-gray-600">Time spent: {formatDuration(duration)}</p>
+
+            {missed.length > 0 && (
+                <div className="w-full mb-4 text-left">
+                    <h3 className="text-lg font-bold mb-2">Missed terms</h3>
+                    <ul className="divide-y divide-gray-200 bg-white rounded-lg shadow-md">
+                        {missed.map(({ card, given }) => (
+                            <li key={card._id} className="p-3">
+                                <span className="font-bold">{getPrompt(card, direction)}</span>
+                                {' → '}
+                                <span>{getExpectedAnswer(card, direction)}</span>
+                                {given && <span className="block text-sm text-red-600">Your answer: {given}</span>}
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            <div className="flex flex-wrap justify-center gap-2">
+                {missed.length > 0 && (
+                    <button
+                        onClick={() => onRetry(missed.map(answer => answer.card._id))}
+                        className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg shadow-neumorphic hover:bg-gray-300 focus:outline-none"
+                    >
+                        Retry missed terms
+                    </button>
+                )}
+                <Link to="/terms/flashcard-serie" className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg shadow-neumorphic">
+                    Back to quiz settings
+                </Link>
+                <Link to="/terms/quiz-history" className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg shadow-neumorphic">
+                    View history
+                </Link>
+            </div>
+        </div>
+    );
+};
+
+export default QuizResults;
@@ -0,0 +1,72 @@
+import React, { useEffect, useRef } from 'react';
+
+interface ShortcutHelpProps {
+    onClose: () => void;
+}
+
+const SHORTCUTS = [
+    { keys: ['Space'], description: 'Flip the card' },
+    { keys: ['←', '→'], description: 'Previous / next card' },
+    { keys: ['1', '2', '3', '4'], description: 'Grade: Again, Hard, Good, Easy (once flipped)' },
+    { keys: ['?'], description: 'Show or hide this help' },
+    { keys: ['Esc'], description: 'Close this help' },
+];
+
+const ShortcutHelp: React.FC<ShortcutHelpProps> = ({ onClose }) => {
+    const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+    // Le focus revient sur l'élément d'origine à la fermeture
+    useEffect(() => {
+        const previouslyFocused = document.activeElement as HTMLElement | null;
+        closeButtonRef.current?.focus();
+        return () => previouslyFocused?.focus();
+    }, []);
+
+    const handleKeyDown = (e: React.KeyboardEvent) => {
+        if (e.key === 'Escape') {
+            e.stopPropagation();
+            onClose();
+        }
+        // Un seul élément focusable : Tab reste dans la fenêtre
+        if (e.key === 'Tab') {
+            e.preventDefault();
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-40" onClick={onClose}>
+            <div
+                role="dialog"
+                aria-modal="true"
+                aria-labelledby="shortcut-help-title"
+                onClick={(e) => e.stopPropagation()}
+                onKeyDown={handleKeyDown}
+                className="w-full max-w-md p-6 bg-gray-100 rounded-lg shadow-lg"
+            >
+                <h2 id="shortcut-help-title" className="text-xl font-bold mb-4">Keyboard shortcuts</h2>
+                <dl className="space-y-2 mb-4">
+                    {SHORTCUTS.map(({ keys, description }) => (
+                        <div key={description} className="flex items-center justify-between gap-4">
+                            <dt className="flex gap-1">
+                                {keys.map(key => (
+                                    <kbd key={key} className="px-2 py-1 text-sm bg-white border border-gray-300 rounded shadow-sm">{key}</kbd>
+                                ))}
+                            </dt>
+                            <dd className="text-gray-700 text-right">{description}</dd>
+                        </div>
+                    ))}
+                </dl>
+                <p className="mb-4 text-sm text-gray-600">On touch screens, swipe the card left or right to change cards.</p>
+                <button
+                    ref={closeButtonRef}
+                    onClick={onClose}
+                    className="w-full px-4 py-2 bg-gray-200 text-gray-700 rounded-lg shadow-neumorphic hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-gray-500"
+                >
+                    Close
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default ShortcutHelp;
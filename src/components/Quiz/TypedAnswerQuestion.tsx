@@ -0,0 +1,53 @@
+import React, { useEffect, useState } from 'react';
+import { Flashcard } from '../../models/termModel';
+import { QuizAnswer, QuizDirection } from '../../models/quizModel';
+
+interface TypedAnswerQuestionProps {
+    card: Flashcard;
+    direction: QuizDirection;
+    answer?: QuizAnswer;
+    onAnswer: (given: string) => void;
+}
+
+const TypedAnswerQuestion: React.FC<TypedAnswerQuestionProps> = ({ card, direction, answer, onAnswer }) => {
+    const [value, setValue] = useState('');
+
+    useEffect(() => {
+        setValue('');
+    }, [card._id]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!answer) {
+            onAnswer(value);
+        }
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="flex w-full gap-2">
+            <label htmlFor="quiz-answer" className="sr-only">
+                {direction === 'reverse' ? 'Type the term' : 'Type the translation'}
+            </label>
+            <input
+                id="quiz-answer"
+                type="text"
+                value={answer ? answer.given : value}
+                onChange={(e) => setValue(e.target.value)}
+                readOnly={!!answer}
+                autoFocus
+                autoComplete="off"
+                placeholder={direction === 'reverse' ? 'Type the term...' : 'Type the translation...'}
+                className="flex-1 p-3 bg-gray-200 border-none rounded-lg shadow-inner focus:outline-none focus:ring-2 focus:ring-gray-500"
+            />
+            <button
+                type="submit"
+                disabled={!!answer || !value.trim()}
+                className="px-4 py-2 bg-gray-200 text-gray-700 rounded-lg shadow-neumorphic hover:bg-gray-300 focus:outline-none disabled:opacity-50"
+            >
+                Check
+            </button>
+        </form>
+    );
+};
+
+export default TypedAnswerQuestion;
@@ -0,0 +1,224 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { FaHistory, FaSearch } from 'react-icons/fa';
+import { useAuth } from '../../contexts/authContext';
+import { searchApprovedTerms } from '../../services/searchService';
+import { isExactMatch, SearchResult } from '../../utils/search';
+import { addRecentSearch, clearRecentSearches, getRecentSearches } from '../../utils/recentSearches';
+import { serializeFilters } from '../../utils/filters';
+import Highlight from '../Terms/Highlight';
+
+const SUGGESTION_DEBOUNCE_MS = 250;
+const MIN_QUERY_LENGTH = 2;
+const MAX_SUGGESTIONS = 8;
+const LISTBOX_ID = 'navbar-search-listbox';
+
+type SearchItem =
+    | { kind: 'suggestion'; result: SearchResult }
+    | { kind: 'recent'; query: string };
+
+function NavbarSearch() {
+    const { user } = useAuth();
+    const navigate = useNavigate();
+    const [query, setQuery] = useState<string>('');
+    const [suggestions, setSuggestions] = useState<SearchResult[]>([]);
+    // Saisie pour laquelle les suggestions ont été calculées, en retard pendant le debounce
+    const [suggestionsQuery, setSuggestionsQuery] = useState<string>('');
+    const [recentSearches, setRecentSearches] = useState<string[]>(() => getRecentSearches(user?._id));
+    const [open, setOpen] = useState<boolean>(false);
+    const [activeIndex, setActiveIndex] = useState<number>(-1);
+    const containerRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        setRecentSearches(getRecentSearches(user?._id));
+    }, [user?._id]);
+
+    useEffect(() => {
+        const trimmed = query.trim();
+        if (trimmed.length < MIN_QUERY_LENGTH) {
+            setSuggestions([]);
+            setSuggestionsQuery('');
+            return;
+        }
+        let active = true;
+        const timeout = setTimeout(async () => {
+            const result = await searchApprovedTerms(trimmed);
+            if (active && result.ok) {
+                setSuggestions(result.data.slice(0, MAX_SUGGESTIONS));
+                setSuggestionsQuery(trimmed);
+                setActiveIndex(-1);
+            }
+        }, SUGGESTION_DEBOUNCE_MS);
+        return () => {
+            active = false;
+            clearTimeout(timeout);
+        };
+    }, [query]);
+
+    useEffect(() => {
+        const handleClickOutside = (event: MouseEvent) => {
+            if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+                setOpen(false);
+            }
+        };
+        document.addEventListener('mousedown', handleClickOutside);
+        return () => document.removeEventListener('mousedown', handleClickOutside);
+    }, []);
+
+    // Sans saisie, on propose les recherches récentes
+    const items: SearchItem[] = query.trim().length >= MIN_QUERY_LENGTH
+        ? suggestions.map(result => ({ kind: 'suggestion', result }))
+        : recentSearches.map(recent => ({ kind: 'recent', query: recent }));
+
+    const close = () => {
+        setOpen(false);
+        setActiveIndex(-1);
+    };
+
+    const remember = (search: string) => {
+        setRecentSearches(addRecentSearch(search, user?._id));
+    };
+
+    const openTerm = (result: SearchResult) => {
+        remember(query);
+        setQuery('');
+        close();
+        navigate(`/terms/${result.term._id}`);
+    };
+
+    const showResults = (search: string) => {
+        const trimmed = search.trim();
+        if (!trimmed) {
+            return;
+        }
+        remember(trimmed);
+        setQuery('');
+        close();
+        navigate(`/?${serializeFilters({ searchTerm: trimmed }).toString()}`);
+    };
+
+    const selectItem = (item: SearchItem) => {
+        if (item.kind === 'suggestion') {
+            openTerm(item.result);
+        } else {
+            showResults(item.query);
+        }
+    };
+
+    const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+        switch (e.key) {
+            case 'ArrowDown':
+                e.preventDefault();
+                setOpen(true);
+                setActiveIndex(index => (items.length === 0 ? -1 : (index + 1) % items.length));
+                break;
+            case 'ArrowUp':
+                e.preventDefault();
+                setActiveIndex(index => (items.length === 0 ? -1 : (index <= 0 ? items.length - 1 : index - 1)));
+                break;
+            case 'Enter':
+                e.preventDefault();
+                if (activeIndex >= 0 && items[activeIndex]) {
+                    selectItem(items[activeIndex]);
+                } else if (suggestionsQuery === query.trim() && suggestions.length > 0 && isExactMatch(suggestions[0])) {
+                    // Un terme qui correspond exactement ouvre directement sa fiche
+                    openTerm(suggestions[0]);
+                } else {
+                    showResults(query);
+                }
+                break;
+            case 'Escape':
+                close();
+                break;
+        }
+    };
+
+    const handleClearRecent = () => {
+        clearRecentSearches(user?._id);
+        setRecentSearches([]);
+    };
+
+    const expanded = open && items.length > 0;
+
+    return (
+        <div ref={containerRef} className="relative mt-4 md:mt-0 w-full md:w-64">
+            <div className="flex items-center px-3 rounded-lg bg-gray-100 shadow-inner">
+                <FaSearch className="text-gray-500" aria-hidden="true" />
+                <input
+                    type="search"
+                    role="combobox"
+                    aria-label="Search terms"
+                    aria-autocomplete="list"
+                    aria-expanded={expanded}
+                    aria-controls={LISTBOX_ID}
+                    aria-activedescendant={activeIndex >= 0 ? `${LISTBOX_ID}-${activeIndex}` : undefined}
+                    placeholder="Search..."
+                    value={query}
+                    onChange={(e) => {
+                        setQuery(e.target.value);
+                        setOpen(true);
+                    }}
+                    onFocus={() => setOpen(true)}
+                    onKeyDown={handleKeyDown}
+                    className="w-full p-2 bg-transparent focus:outline-none text-gray-700"
+                />
+            </div>
+            {expanded && (
+                <ul
+                    id={LISTBOX_ID}
+                    role="listbox"
+                    className="absolute left-0 right-0 mt-2 bg-white rounded-md shadow-lg py-2 z-30 max-h-96 overflow-y-auto"
+                >
+                    {items.map((item, index) => (
+                        <li
+                            key={item.kind === 'suggestion' ? item.result.term._id : `recent-${item.query}`}
+                            id={`${LISTBOX_ID}-${index}`}
+                            role="option"
+                            aria-selected={index === activeIndex}
+                            onMouseDown={(e) => e.preventDefault()}
+                            onClick={() => selectItem(item)}
+                            onMouseEnter={() => setActiveIndex(index)}
+                            className={`px-4 py-2 cursor-pointer ${index === activeIndex ? 'bg-gray-100' : ''}`}
+                        >
+                            {item.kind === 'suggestion' ? (
+                                <div className="flex items-center justify-between gap-2">
+                                    <div className="min-w-0">
+                                        <p className="font-semibold text-gray-800 truncate">
+                                            <Highlight text={item.result.term.term} ranges={item.result.highlights.term} />
+                                        </p>
+                                        <p className="text-sm text-gray-600 truncate">
+                                            <Highlight text={item.result.term.translation} ranges={item.result.highlights.translation} />
+                                        </p>
+                                    </div>
+                                    {item.result.term.language && (
+                                        <span className="shrink-0 bg-purple-200 text-purple-800 text-xs px-2 rounded-full">
+                                            {item.result.term.language.code || item.result.term.language.name}
+                                        </span>
+                                    )}
+                                </div>
+                            ) : (
+                                <span className="flex items-center text-gray-700">
+                                    <FaHistory className="mr-2 text-gray-400" aria-hidden="true" />
+                                    {item.query}
+                                </span>
+                            )}
+                        </li>
+                    ))}
+                    {items[0]?.kind === 'recent' && (
+                        <li role="presentation" className="px-4 pt-2 border-t border-gray-100">
+                            <button
+                                onMouseDown={(e) => e.preventDefault()}
+                                onClick={handleClearRecent}
+                                className="text-xs text-gray-500 hover:text-gray-700"
+                            >
+                                Clear recent searches
+                            </button>
+                        </li>
+                    )}
+                </ul>
+            )}
+        </div>
+    );
+}
+
+export default NavbarSearch;
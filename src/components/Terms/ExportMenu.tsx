@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { FaDownload } from 'react-icons/fa';
+import { getAllApprovedTerms } from '../../services/termService';
+import { searchApprovedTerms } from '../../services/searchService';
+import { notifyInfo, notifySuccess } from '../../services/notificationService';
+import { Filters } from '../../models/filtersModel';
+import { Term } from '../../models/termModel';
+import { ApiResult } from '../../services/apiClient';
+import { downloadFile } from '../../utils/download';
+import { EXPORT_FORMATS, ExportFormat, formatGlossary } from '../../utils/glossaryExport';
+
+interface ExportMenuProps {
+    filters: Filters;
+}
+
+// Exporte tous les termes correspondant aux filtres, pas seulement la page affichée
+const fetchMatchingTerms = async ({ searchTerm, page, limit, ...scope }: Filters): Promise<ApiResult<Term[]>> => {
+    if (searchTerm?.trim()) {
+        const result = await searchApprovedTerms(searchTerm, scope);
+        return result.ok ? { ok: true, data: result.data.map(({ term }) => term) } : result;
+    }
+    return getAllApprovedTerms(scope);
+};
+
+function ExportMenu({ filters }: ExportMenuProps) {
+    const [exporting, setExporting] = useState<ExportFormat | null>(null);
+
+    const handleExport = async (format: ExportFormat) => {
+        setExporting(format);
+        const result = await fetchMatchingTerms(filters);
+        setExporting(null);
+        if (!result.ok) {
+            return;
+        }
+        if (result.data.length === 0) {
+            notifyInfo('No terms match the current filters.');
+            return;
+        }
+        const { extension, mimeType } = EXPORT_FORMATS[format];
+        const date = new Date().toISOString().slice(0, 10);
+        downloadFile(formatGlossary(result.data, format), `glossary-${date}.${extension}`, mimeType);
+        notifySuccess(`${result.data.length} terms exported.`);
+    };
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 mb-6">
+            <span className="flex items-center text-gray-700 font-semibold">
+                <FaDownload className="mr-2" aria-hidden="true" />
+                Export
+            </span>
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(format => (
+                <button
+                    key={format}
+                    onClick={() => handleExport(format)}
+                    disabled={exporting !== null}
+                    className="px-4 py-2 rounded-lg bg-gray-200 text-gray-600 shadow-[3px_3px_6px_#d1d9e6,-3px_-3px_6px_#ffffff] hover:bg-gray-300 focus:outline-none disabled:opacity-50"
+                >
+                    {exporting === format ? 'Exporting...' : EXPORT_FORMATS[format].label}
+                </button>
+            ))}
+        </div>
+    );
+}
+
+export default ExportMenu;
@@ -0,0 +1,36 @@
+import React from 'react';
+import { HighlightRange } from '../../utils/search';
+
+interface HighlightProps {
+    text: string;
+    ranges?: HighlightRange[];
+}
+
+const Highlight: React.FC<HighlightProps> = ({ text, ranges }) => {
+    if (!ranges || ranges.length === 0) {
+        return <>{text}</>;
+    }
+
+    const sorted = [...ranges].sort((a, b) => a[0] - b[0]);
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    sorted.forEach(([start, end], index) => {
+        if (start < cursor) {
+            return;
+        }
+        if (start > cursor) {
+            parts.push(text.slice(cursor, start));
+        }
+        parts.push(
+            <mark key={index} className="bg-yellow-200 text-inherit rounded px-0.5">
+                {text.slice(start, end)}
+            </mark>
+        );
+        cursor = end;
+    });
+    parts.push(text.slice(cursor));
+
+    return <>{parts}</>;
+};
+
+export default Highlight;
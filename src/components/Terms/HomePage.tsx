@@ -1,13 +1,10 @@
-import React, { useEffect, useState, useCallback } from 'react';
-import { downvoteTerm, getApprovedTerms, upvoteTerm, bookmarkTerm, unbookmarkTerm } from '../../services/termService';
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import { getApprovedTerms, bookmarkTerm, unbookmarkTerm } from '../../services/termService';
 import { getCategories } from '../../services/categoryService';
 import { getThemes } from '../../services/themeService';
 import { getLanguages } from '../../services/languageService';
 import { Link, useNavigate } from 'react-router-dom';
-import { AxiosError } from 'axios';
-import { handleAuthError } from '../../utils/handleAuthError';
 import FilterButtons from '../FilterButtons';
-import { ErrorResponse } from '../../utils/types';
 import { useAuth } from '../../contexts/authContext';
 import { Theme } from '../../models/themeModel';
 import { Category } from '../../models/categoryModel';
@@ -16,156 +13,145 @@ import { Term } from '../../models/termModel';
 import Skeleton from 'react-loading-skeleton';
 import 'react-loading-skeleton/dist/skeleton.css';
 import TermItem from './TermItem';
+import Pagination from '../Pagination';
+import ExportMenu from './ExportMenu';
+import { PAGE_SIZE_OPTIONS } from '../../utils/pagination';
+import { useQuery } from '../../hooks/useQuery';
+import { queryKeys } from '../../services/queryKeys';
+import { useUrlFilters } from '../../hooks/useUrlFilters';
+import { searchApprovedTerms } from '../../services/searchService';
+import { TermHighlights } from '../../utils/search';
+
+const SEARCH_DEBOUNCE_MS = 400;
 
 function HomePage() {
     const { user } = useAuth();
     const [terms, setTerms] = useState<Term[]>([]);
-    const [filteredTerms, setFilteredTerms] = useState<Term[]>([]);
-    const [categories, setCategories] = useState<Category[]>([]);
-    const [selectedCategory, setSelectedCategory] = useState<string>('');
-    const [themes, setThemes] = useState<Theme[]>([]);
-    const [selectedTheme, setSelectedTheme] = useState<string>('');
-    const [languages, setLanguages] = useState<Language[]>([]);
-    const [selectedLanguage, setSelectedLanguage] = useState<string>('');
-    const [searchTerm, setSearchTerm] = useState<string>('');
-    const [currentPage, setCurrentPage] = useState<number>(1);
+    const [totalTerms, setTotalTerms] = useState<number>(0);
+    const [highlights, setHighlights] = useState<Record<string, TermHighlights>>({});
+    const { filters, updateFilters } = useUrlFilters();
+    const selectedCategory = filters.category ?? '';
+    const selectedTheme = filters.theme ?? '';
+    const selectedLanguage = filters.language ?? '';
+    const searchTerm = filters.searchTerm ?? '';
+    const currentPage = filters.page ?? 1;
+    const [searchInput, setSearchInput] = useState<string>(searchTerm);
     const [termsLoading, setTermsLoading] = useState<boolean>(true);
-    const [filtersLoading, setFiltersLoading] = useState<boolean>(true);
-    const termsPerPage: number = 10;
+    const [infiniteScroll, setInfiniteScroll] = useState<boolean>(false);
+    const termsPerPage: number = filters.limit ?? PAGE_SIZE_OPTIONS[0];
+    // En défilement infini, les pages suivantes s'ajoutent à celles déjà chargées
+    const appendNextPage = infiniteScroll && currentPage > 1;
     const navigate = useNavigate();
 
-    const fetchApprovedTerms = useCallback(async () => {
+    const showPage = useCallback((pageTerms: Term[], total: number) => {
+        setTerms(prevTerms => appendNextPage
+            ? [...prevTerms, ...pageTerms.filter(term => !prevTerms.some(prev => prev._id === term._id))]
+            : pageTerms);
+        setTotalTerms(total);
+    }, [appendNextPage]);
+
+    // isActive écarte les réponses arrivées après un changement de filtres ou de page
+    const fetchApprovedTerms = useCallback(async (isActive: () => boolean) => {
         setTermsLoading(true);
-        try {
-            const data = await getApprovedTerms({
+        if (searchTerm.trim()) {
+            // Recherche approchée : le classement et le découpage en pages se font côté client
+            const result = await searchApprovedTerms(searchTerm, {
+                category: selectedCategory || undefined,
+                theme: selectedTheme || undefined,
+                language: selectedLanguage || undefined,
+            });
+            if (!isActive()) {
+                return;
+            }
+            if (result.ok) {
+                const pageResults = result.data.slice((currentPage - 1) * termsPerPage, currentPage * termsPerPage);
+                setHighlights(prevHighlights => ({
+                    ...(appendNextPage ? prevHighlights : {}),
+                    ...Object.fromEntries(pageResults.map(({ term, highlights }) => [term._id, highlights])),
+                }));
+                showPage(pageResults.map(({ term }) => term), result.data.length);
+            }
+        } else {
+            const result = await getApprovedTerms({
                 category: selectedCategory,
                 theme: selectedTheme,
                 language: selectedLanguage,
-                searchTerm,
                 page: currentPage,
                 limit: termsPerPage,
             });
-            if (data && data.terms) {
-                setTerms(data.terms);
-                setFilteredTerms(data.terms);
+            if (!isActive()) {
+                return;
+            }
+            if (result.ok) {
+                setHighlights({});
+                showPage(result.data.terms, result.data.totalTerms);
             }
-        } catch (error) {
-            handleAuthError(error as AxiosError<ErrorResponse>);
-        } finally {
-            setTermsLoading(false);
         }
-    }, [selectedCategory, selectedTheme, selectedLanguage, searchTerm, currentPage]);
+        setTermsLoading(false);
+    }, [selectedCategory, selectedTheme, selectedLanguage, searchTerm, currentPage, termsPerPage, appendNextPage, showPage]);
 
-    const fetchCategories = useCallback(async () => {
-        setFiltersLoading(true);
-        try {
-            const categoriesData = await getCategories();
-            setCategories(categoriesData.filter((category: Category) => category.isApproved));
-        } catch (error) {
-            console.error('Erreur de chargement des catégories', error);
-        } finally {
-            setFiltersLoading(false);
-        }
-    }, []);
+    // Catégories, thèmes et langues sont partagés avec les formulaires via le cache de requêtes
+    const categoriesQuery = useQuery(queryKeys.approvedCategories, getCategories);
+    const themesQuery = useQuery(queryKeys.approvedThemes, getThemes);
+    const languagesQuery = useQuery(queryKeys.approvedLanguages, getLanguages);
+    const filtersLoading = categoriesQuery.loading || themesQuery.loading || languagesQuery.loading;
 
-    const fetchThemes = useCallback(async () => {
-        setFiltersLoading(true);
-        try {
-            const themesData = await getThemes();
-            setThemes(themesData.filter((theme: Theme) => theme.isApproved));
-        } catch (error) {
-            console.error('Erreur de chargement des thèmes', error);
-        } finally {
-            setFiltersLoading(false);
-        }
-    }, []);
+    const categories = useMemo(
+        () => (categoriesQuery.data ?? []).filter((category: Category) => category.isApproved),
+        [categoriesQuery.data]
+    );
+    const themes = useMemo(
+        () => (themesQuery.data ?? []).filter((theme: Theme) => theme.isApproved),
+        [themesQuery.data]
+    );
+    const languages = useMemo(
+        () => (languagesQuery.data ?? []).filter((language: Language) => language.isApproved),
+        [languagesQuery.data]
+    );
 
-    const fetchLanguages = useCallback(async () => {
-        setFiltersLoading(true);
-        try {
-            const languagesData = await getLanguages();
-            setLanguages(languagesData.filter((language: Language) => language.isApproved));
-        } catch (error) {
-            console.error('Erreur de chargement des langues', error);
-        } finally {
-            setFiltersLoading(false);
-        }
-    }, []);
+    useEffect(() => {
+        let active = true;
+        fetchApprovedTerms(() => active);
+        return () => {
+            active = false;
+        };
+    }, [fetchApprovedTerms]);
 
+    // Le champ suit l'URL quand on navigue dans l'historique
     useEffect(() => {
-        fetchCategories();
-        fetchThemes();
-        fetchLanguages();
-        fetchApprovedTerms();
-    }, [fetchApprovedTerms, fetchCategories, fetchThemes, fetchLanguages]);
+        setSearchInput(searchTerm);
+    }, [searchTerm]);
 
+    // Une entrée d'historique par recherche, pas par frappe
     useEffect(() => {
-        if (terms && terms.length > 0) {
-            const filtered = terms.filter((term: Term) =>
-                (selectedCategory ? term.grammaticalCategory.name === selectedCategory : true) &&
-                (selectedTheme ? term.theme.name === selectedTheme : true) &&
-                (selectedLanguage ? term.language.name === selectedLanguage : true) &&
-                (term.term.toLowerCase().includes(searchTerm.toLowerCase()) || term.definition.toLowerCase().includes(searchTerm.toLowerCase()))
-            );
-            setFilteredTerms(filtered);
+        if (searchInput === searchTerm) {
+            return;
         }
-    }, [selectedCategory, selectedTheme, selectedLanguage, searchTerm, terms]);
+        const timeout = setTimeout(() => {
+            updateFilters({ searchTerm: searchInput });
+        }, SEARCH_DEBOUNCE_MS);
+        return () => clearTimeout(timeout);
+    }, [searchInput, searchTerm, updateFilters]);
 
     const handleSearchChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-        setSearchTerm(e.target.value);
+        setSearchInput(e.target.value);
     };
 
-    const indexOfLastTerm = currentPage * termsPerPage;
-    const indexOfFirstTerm = indexOfLastTerm - termsPerPage;
-    const currentTerms = filteredTerms.length > 0 ? filteredTerms.slice(indexOfFirstTerm, indexOfLastTerm) : [];
-
-    const paginate = (pageNumber: number) => setCurrentPage(pageNumber);
+    // Charger la page suivante en défilement infini ne crée pas d'entrée d'historique
+    const paginate = useCallback((pageNumber: number) => {
+        updateFilters({ page: pageNumber }, { replace: infiniteScroll });
+    }, [updateFilters, infiniteScroll]);
 
-    const handleUpvote = async (id: string) => {
-        try {
-            await upvoteTerm(id);
-            setTerms(prevTerms =>
-                prevTerms.map(term => {
-                    if (term._id === id) {
-                        const isUpvoted = term.upvotedBy.includes(user!._id);
-                        const upvotedBy = isUpvoted
-                            ? term.upvotedBy.filter(userId => userId !== user!._id)
-                            : [...term.upvotedBy, user!._id];
-                        const downvotedBy = term.downvotedBy.filter(userId => userId !== user!._id);
-                        return { ...term, upvotedBy, downvotedBy };
-                    }
-                    return term;
-                })
-            );
-        } catch (error) {
-            console.error('Erreur lors de l\'upvote', error);
-        }
-    };
+    const handlePageSizeChange = (pageSize: number) => updateFilters({ limit: pageSize });
 
-    const handleDownvote = async (id: string) => {
-        try {
-            await downvoteTerm(id);
-            setTerms(prevTerms =>
-                prevTerms.map(term => {
-                    if (term._id === id) {
-                        const isDownvoted = term.downvotedBy.includes(user!._id);
-                        const downvotedBy = isDownvoted
-                            ? term.downvotedBy.filter(userId => userId !== user!._id)
-                            : [...term.downvotedBy, user!._id];
-                        const upvotedBy = term.upvotedBy.filter(userId => userId !== user!._id);
-                        return { ...term, upvotedBy, downvotedBy };
-                    }
-                    return term;
-                })
-            );
-        } catch (error) {
-            console.error('Erreur lors de l\'downvote', error);
-        }
+    const handleInfiniteScrollChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+        setInfiniteScroll(e.target.checked);
+        updateFilters({ page: undefined }, { replace: true });
     };
 
     const handleBookmark = async (id: string) => {
-        try {
-            await bookmarkTerm(id);
+        const result = await bookmarkTerm(id);
+        if (result.ok) {
             setTerms(prevTerms =>
                 prevTerms.map(term => {
                     if (term._id === id) {
@@ -174,14 +160,12 @@ function HomePage() {
                     return term;
                 })
             );
-        } catch (error) {
-            console.error('Erreur lors de l\'bookmark', error);
         }
     };
 
     const handleUnbookmark = async (id: string) => {
-        try {
-            await unbookmarkTerm(id);
+        const result = await unbookmarkTerm(id);
+        if (result.ok) {
             setTerms(prevTerms =>
                 prevTerms.map(term => {
                     if (term._id === id) {
@@ -190,8 +174,6 @@ function HomePage() {
                     return term;
                 })
             );
-        } catch (error) {
-            console.error('Erreur lors de l\'unbookmark', error);
         }
     };
 
@@ -200,8 +182,8 @@ function HomePage() {
             <h2 className="text-3xl font-bold mb-6 text-gray-700">The Words World</h2>
             <input
                 type="text"
-                placeholder="Rechercher un terme ou une définition..."
-                value={searchTerm}
+                placeholder="Rechercher un terme, une traduction ou une définition..."
+                value={searchInput}
                 onChange={handleSearchChange}
                 className="w-full p-3 mb-6 bg-gray-200 border-none rounded-lg shadow-inner focus:outline-none focus:ring-2 focus:ring-gray-400"
             />
@@ -209,24 +191,25 @@ function HomePage() {
                 title="Categories"
                 options={categories.map(cat => cat.name)}
                 selectedOption={selectedCategory}
-                onSelectOption={(option) => setSelectedCategory(option === selectedCategory ? '' : option)}
+                onSelectOption={(option) => updateFilters({ category: option === selectedCategory ? undefined : option })}
                 loading={filtersLoading}
             />
             <FilterButtons
                 title="Themes"
                 options={themes.map(theme => theme.name)}
                 selectedOption={selectedTheme}
-                onSelectOption={(option) => setSelectedTheme(option === selectedTheme ? '' : option)}
+                onSelectOption={(option) => updateFilters({ theme: option === selectedTheme ? undefined : option })}
                 loading={filtersLoading}
             />
             <FilterButtons
                 title="Languages"
                 options={languages.map(lang => lang.name)}
                 selectedOption={selectedLanguage}
-                onSelectOption={(option) => setSelectedLanguage(option === selectedLanguage ? '' : option)}
+                onSelectOption={(option) => updateFilters({ language: option === selectedLanguage ? undefined : option })}
                 loading={filtersLoading}
             />
-            {termsLoading ? (
+            <ExportMenu filters={filters} />
+            {termsLoading && !appendNextPage ? (
                 <ul className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                     {Array.from({ length: termsPerPage }).map((_, index) => (
                         <li key={index} className="flex flex-col justify-between mb-4 p-4 bg-gray-100 rounded-lg shadow-[3px_3px_6px_#c5c5c5,-3px_-3px_6px_#ffffff]">
@@ -241,57 +224,37 @@ function HomePage() {
                         </li>
                     ))}
                 </ul>
-            ) : filteredTerms.length === 0 ? (
+            ) : terms.length === 0 ? (
                 <p className="text-center text-gray-500">No terms found.</p>
             ) : (
                 <ul className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                    {currentTerms.map((term) => (
+                    {terms.map((term) => (
                         <TermItem
                             key={term._id}
                             term={term}
                             user={user}
-                            handleUpvote={handleUpvote}
-                            handleDownvote={handleDownvote}
                             handleBookmark={handleBookmark}
                             handleUnbookmark={handleUnbookmark}
+                            highlights={highlights[term._id]}
                         />
                     ))}
                 </ul>
             )}
-            <Pagination termsPerPage={termsPerPage} totalTerms={terms.length} paginate={paginate} />
+            <label className="mt-6 flex items-center gap-2 text-gray-600">
+                <input type="checkbox" checked={infiniteScroll} onChange={handleInfiniteScrollChange} />
+                Infinite scroll
+            </label>
+            <Pagination
+                currentPage={currentPage}
+                pageSize={termsPerPage}
+                totalItems={totalTerms}
+                onPageChange={paginate}
+                onPageSizeChange={handlePageSizeChange}
+                infiniteScroll={infiniteScroll}
+                loading={termsLoading}
+            />
         </div>
     );
 }
 
-interface PaginationProps {
-    termsPerPage: number;
-    totalTerms: number;
-    paginate: (pageNumber: number) => void;
-}
-
-const Pagination: React.FC<PaginationProps> = ({ termsPerPage, totalTerms, paginate }) => {
-    const pageNumbers = [];
-
-    for (let i = 1; i <= Math.ceil(totalTerms / termsPerPage); i++) {
-        pageNumbers.push(i);
-    }
-
-    return (
-        <nav className="mt-4">
-            <ul className="inline-flex -space-x-px">
-                {pageNumbers.map((number) => (
-                    <li key={number}>
-                        <button
-                            onClick={() => paginate(number)}
-                            className="px-3 py-2 leading-tight text-gray-500 bg-gray-100 border border-gray-300 hover:bg-gray-200 hover:text-gray-700 rounded-lg shadow-lg"
-                        >
-                            {number}
-                        </button>
-                    </li>
-                ))}
-            </ul>
-        </nav>
-    );
-};
-
 export default HomePage;
@@ -0,0 +1,250 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { addTerm } from '../../services/termService';
+import { getCategories } from '../../services/categoryService';
+import { getThemes } from '../../services/themeService';
+import { getLanguages } from '../../services/languageService';
+import { queryKeys } from '../../services/queryKeys';
+import { useQuery } from '../../hooks/useQuery';
+import { toCsv } from '../../utils/csv';
+import { downloadFile } from '../../utils/download';
+import {
+    ColumnMapping,
+    guessColumnMapping,
+    ImportRow,
+    ImportSource,
+    parseImportFile,
+    TERM_FIELD_LABELS,
+    TERM_FIELDS,
+    validateImportRows,
+} from '../../utils/termImport';
+
+const BATCH_SIZE = 10;
+
+interface ImportFailure {
+    row: ImportRow;
+    reason: string;
+}
+
+const ImportTermsPage: React.FC = () => {
+    const [fileName, setFileName] = useState<string>('');
+    const [source, setSource] = useState<ImportSource | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+    const [parseError, setParseError] = useState<string | null>(null);
+    const [includeUnapproved, setIncludeUnapproved] = useState<boolean>(true);
+    const [submitting, setSubmitting] = useState<boolean>(false);
+    const [progress, setProgress] = useState<{ done: number; total: number }>({ done: 0, total: 0 });
+    const [failures, setFailures] = useState<ImportFailure[]>([]);
+    const [importedCount, setImportedCount] = useState<number | null>(null);
+
+    const { data: categories } = useQuery(queryKeys.approvedCategories, getCategories);
+    const { data: themes } = useQuery(queryKeys.approvedThemes, getThemes);
+    const { data: languages } = useQuery(queryKeys.approvedLanguages, getLanguages);
+
+    const rows = useMemo(() => {
+        if (!source || !mapping) {
+            return [];
+        }
+        return validateImportRows(source, mapping, {
+            categories: (categories ?? []).map(category => category.name),
+            themes: (themes ?? []).map(theme => theme.name),
+            languages: (languages ?? []).map(language => language.name),
+        });
+    }, [source, mapping, categories, themes, languages]);
+
+    const rowsToImport = rows.filter(row => row.errors.length === 0 && (includeUnapproved || row.warnings.length === 0));
+    const invalidCount = rows.filter(row => row.errors.length > 0).length;
+    const warningCount = rows.filter(row => row.errors.length === 0 && row.warnings.length > 0).length;
+    // Une fois l'import terminé, seules les lignes d'un nouveau fichier peuvent être envoyées
+    const locked = submitting || importedCount !== null;
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        if (!file) {
+            return;
+        }
+        setParseError(null);
+        setFailures([]);
+        setImportedCount(null);
+        try {
+            const parsed = parseImportFile(file.name, await file.text());
+            setFileName(file.name);
+            setSource(parsed);
+            setMapping(guessColumnMapping(parsed.columns));
+        } catch (error) {
+            setSource(null);
+            setMapping(null);
+            setParseError(error instanceof Error ? error.message : 'Unable to read this file.');
+        }
+    };
+
+    const handleMappingChange = (field: keyof ColumnMapping, column: string) => {
+        setMapping(current => current ? { ...current, [field]: column } : current);
+    };
+
+    const handleSubmit = async () => {
+        setSubmitting(true);
+        setFailures([]);
+        setImportedCount(null);
+        setProgress({ done: 0, total: rowsToImport.length });
+
+        const newFailures: ImportFailure[] = [];
+        // Envoi par lots pour ne pas saturer l'API avec des centaines de requêtes simultanées
+        for (let start = 0; start < rowsToImport.length; start += BATCH_SIZE) {
+            const batch = rowsToImport.slice(start, start + BATCH_SIZE);
+            const results = await Promise.all(batch.map(row => addTerm(row.data, { silent: true })));
+            results.forEach((result, index) => {
+                if (!result.ok) {
+                    newFailures.push({ row: batch[index], reason: result.error.message });
+                }
+            });
+            setProgress({ done: Math.min(start + BATCH_SIZE, rowsToImport.length), total: rowsToImport.length });
+        }
+
+        setFailures(newFailures);
+        setImportedCount(rowsToImport.length - newFailures.length);
+        setSubmitting(false);
+    };
+
+    const handleDownloadReport = () => {
+        const skipped: ImportFailure[] = rows
+            .filter(row => !rowsToImport.includes(row))
+            .map(row => ({ row, reason: [...row.errors, ...row.warnings].join(' ') }));
+        const report = [
+            ['row', ...TERM_FIELDS, 'reason'],
+            ...[...skipped, ...failures]
+                .sort((a, b) => a.row.index - b.row.index)
+                .map(({ row, reason }) => [row.index, ...TERM_FIELDS.map(field => row.data[field]), reason]),
+        ];
+        downloadFile(toCsv(report), `${fileName.replace(/\.[^.]+$/, '') || 'import'}-failures.csv`, 'text/csv');
+    };
+
+    return (
+        <div className="max-w-6xl mx-auto mt-10 p-6 bg-gray-100 rounded-lg shadow-[5px_5px_10px_#d1d9e6,-5px_-5px_10px_#ffffff]">
+            <h2 className="text-2xl font-bold mb-2">Import terms</h2>
+            <p className="mb-4 text-gray-600">
+                Upload a CSV or JSON file. Each term is submitted for review, like terms added with the <Link to="/new-term" className="underline">form</Link>.
+            </p>
+            <input
+                type="file"
+                accept=".csv,.json,text/csv,application/json"
+                onChange={handleFileChange}
+                disabled={submitting}
+                className="mb-4"
+            />
+            {parseError && <div className="mb-4 text-red-500">{parseError}</div>}
+
+            {source && mapping && (
+                <>
+                    <h3 className="text-xl font-bold mb-2">Columns</h3>
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+                        {TERM_FIELDS.map(field => (
+                            <label key={field} className="flex flex-col text-gray-800">
+                                {TERM_FIELD_LABELS[field]}
+                                <select
+                                    value={mapping[field]}
+                                    onChange={(e) => handleMappingChange(field, e.target.value)}
+                                    disabled={locked}
+                                    className="mt-1 p-2 rounded-lg shadow-inner bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500"
+                                >
+                                    <option value="">Not mapped</option>
+                                    {source.columns.map(column => (
+                                        <option key={column} value={column}>{column}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        ))}
+                    </div>
+
+                    <h3 className="text-xl font-bold mb-2">Preview</h3>
+                    <p className="mb-2 text-gray-600">
+                        {rows.length} rows, {invalidCount} with errors, {warningCount} with values needing approval.
+                    </p>
+                    <div className="overflow-x-auto max-h-96 mb-4">
+                        <table className="min-w-full bg-gray-200">
+                            <thead>
+                                <tr>
+                                    <th className="py-2 px-4 border-b text-left">#</th>
+                                    {TERM_FIELDS.map(field => (
+                                        <th key={field} className="py-2 px-4 border-b text-left">{TERM_FIELD_LABELS[field]}</th>
+                                    ))}
+                                    <th className="py-2 px-4 border-b text-left">Status</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {rows.map(row => (
+                                    <tr key={row.index} className={row.errors.length > 0 ? 'bg-red-100' : row.warnings.length > 0 ? 'bg-yellow-100' : ''}>
+                                        <td className="py-2 px-4 border-b">{row.index}</td>
+                                        {TERM_FIELDS.map(field => (
+                                            <td key={field} className="py-2 px-4 border-b">{row.data[field]}</td>
+                                        ))}
+                                        <td className="py-2 px-4 border-b text-sm">
+                                            {[...row.errors, ...row.warnings].map(message => (
+                                                <p key={message} className={row.errors.includes(message) ? 'text-red-600' : 'text-yellow-700'}>{message}</p>
+                                            ))}
+                                            {row.errors.length === 0 && row.warnings.length === 0 && <span className="text-green-700">Ready</span>}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <label className="flex items-center gap-2 mb-4 text-gray-800">
+                        <input
+                            type="checkbox"
+                            checked={includeUnapproved}
+                            onChange={(e) => setIncludeUnapproved(e.target.checked)}
+                            disabled={locked}
+                        />
+                        Import rows with categories, themes or languages that need approval
+                    </label>
+
+                    <button
+                        onClick={handleSubmit}
+                        disabled={locked || rowsToImport.length === 0}
+                        className="p-3 bg-gray-400 text-white rounded-lg shadow-[5px_5px_10px_#b3b3b3,-5px_-5px_10px_#ffffff] hover:bg-gray-500 focus:outline-none disabled:opacity-50"
+                    >
+                        {submitting ? 'Importing...' : `Import ${rowsToImport.length} terms`}
+                    </button>
+
+                    {progress.total > 0 && (
+                        <div className="mt-4">
+                            <div
+                                role="progressbar"
+                                aria-valuemin={0}
+                                aria-valuemax={progress.total}
+                                aria-valuenow={progress.done}
+                                className="w-full h-3 bg-gray-200 rounded-full shadow-inner overflow-hidden"
+                            >
+                                <div
+                                    className="h-full bg-green-500 transition-all"
+                                    style={{ width: `${(progress.done / progress.total) * 100}%` }}
+                                />
+                            </div>
+                            <p className="mt-1 text-sm text-gray-600">{progress.done} / {progress.total}</p>
+                        </div>
+                    )}
+
+                    {importedCount !== null && (
+                        <div className="mt-4">
+                            <p className="text-gray-800">
+                                {importedCount} terms submitted, {failures.length} failed, {rows.length - rowsToImport.length} skipped.
+                            </p>
+                            {(failures.length > 0 || rows.length > rowsToImport.length) && (
+                                <button
+                                    onClick={handleDownloadReport}
+                                    className="mt-2 p-2 bg-gray-200 text-gray-700 rounded-lg shadow-[3px_3px_6px_#d1d9e6,-3px_-3px_6px_#ffffff] hover:bg-gray-300"
+                                >
+                                    Download failure report
+                                </button>
+                            )}
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ImportTermsPage;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { REVISION_FIELD_LABELS, RevisionEntry, TEXT_DIFF_FIELDS } from '../../utils/termRevisions';
+import WordDiff from './WordDiff';
+
+// Différences d'une révision avec la version précédente : mot à mot pour les textes
+const RevisionChanges: React.FC<{ entry: RevisionEntry }> = ({ entry }) => {
+    const { revision, previous, changedFields } = entry;
+    const taxonomyFields = changedFields.filter(field => !TEXT_DIFF_FIELDS.includes(field));
+
+    if (changedFields.length === 0) {
+        return <p className="mb-4 text-sm text-gray-600">No differences with the previous version.</p>;
+    }
+
+    return (
+        <>
+            {TEXT_DIFF_FIELDS.filter(field => changedFields.includes(field)).map(field => (
+                <WordDiff
+                    key={field}
+                    label={REVISION_FIELD_LABELS[field]}
+                    before={previous?.[field] ?? ''}
+                    after={revision.snapshot[field]}
+                />
+            ))}
+            {taxonomyFields.length > 0 && (
+                <ul className="mb-4 text-sm">
+                    {taxonomyFields.map(field => (
+                        <li key={field}>
+                            <span className="font-semibold">{REVISION_FIELD_LABELS[field]}:</span>{' '}
+                            {previous?.[field] ? <del className="text-red-800">{previous[field]}</del> : null}
+                            {previous?.[field] ? ' → ' : ''}
+                            <ins className="text-green-800 no-underline">{revision.snapshot[field]}</ins>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </>
+    );
+};
+
+export default RevisionChanges;
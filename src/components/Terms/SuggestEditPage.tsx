@@ -0,0 +1,35 @@
+import React from 'react';
+import { useParams } from 'react-router-dom';
+import Skeleton from 'react-loading-skeleton';
+import 'react-loading-skeleton/dist/skeleton.css';
+import { getTermById } from '../../services/termService';
+import { queryKeys } from '../../services/queryKeys';
+import { useQuery } from '../../hooks/useQuery';
+import { toTermSnapshot } from '../../utils/termRevisions';
+import TermForm from './TermForm';
+
+const SuggestEditPage: React.FC = () => {
+    const { id } = useParams<{ id: string }>();
+    const { data: term, loading, error } = useQuery(
+        id ? queryKeys.term(id) : null,
+        () => getTermById(id!)
+    );
+
+    if (error) {
+        return <p className="max-w-md mx-auto mt-10 text-red-500">This term could not be loaded.</p>;
+    }
+
+    // Le formulaire ne lit ses valeurs initiales qu'au montage : on attend le terme
+    if (loading || !term || !id) {
+        return (
+            <div className="max-w-md mx-auto mt-10 p-6 bg-gray-100 rounded-lg">
+                <Skeleton height={32} width="60%" className="mb-4" />
+                <Skeleton count={6} height={40} className="mb-4" />
+            </div>
+        );
+    }
+
+    return <TermForm termId={id} initialData={toTermSnapshot(term)} suggestEdit />;
+};
+
+export default SuggestEditPage;
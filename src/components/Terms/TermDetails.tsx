@@ -1,40 +1,36 @@
-import React, { useEffect, useState } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import React, { useState } from 'react';
+import { Link, useParams, useNavigate } from 'react-router-dom';
 import { getTermById, addComment } from '../../services/termService';
-import { AxiosError } from 'axios';
-import { handleAuthError } from '../../utils/handleAuthError';
-import { ErrorResponse } from '../../utils/types';
 import { useAuth } from '../../contexts/authContext';
-import { Term } from '../../models/termModel';
 import Skeleton from 'react-loading-skeleton';
 import 'react-loading-skeleton/dist/skeleton.css';
+import { useQuery } from '../../hooks/useQuery';
+import { queryKeys } from '../../services/queryKeys';
+import VoteButtons from './VoteButtons';
+import TermHistory from './TermHistory';
+import Can from '../Can';
+
+type TermTab = 'details' | 'history';
+
+const TABS: { id: TermTab; label: string }[] = [
+    { id: 'details', label: 'Details' },
+    { id: 'history', label: 'History' },
+];
 
 const TermDetails: React.FC = () => {
     const { id } = useParams<{ id: string }>();
-    const [term, setTerm] = useState<Term | null>(null);
     const [commentText, setCommentText] = useState<string>('');
     const [loading, setLoading] = useState<boolean>(false);
-    const [termLoading, setTermLoading] = useState<boolean>(true);
     const [error, setError] = useState<string | null>(null);
+    const [activeTab, setActiveTab] = useState<TermTab>('details');
     const { user } = useAuth();
     const navigate = useNavigate();
 
-    useEffect(() => {
-        const fetchTerm = async () => {
-            if (id) {
-                try {
-                    const data = await getTermById(id);
-                    setTerm(data);
-                } catch (error) {
-                    handleAuthError(error as AxiosError<ErrorResponse>);
-                } finally {
-                    setTermLoading(false);
-                }
-            }
-        };
-
-        fetchTerm();
-    }, [id]);
+    // addComment invalide ce terme : la version à jour arrive par le cache
+    const { data: term, loading: termLoading } = useQuery(
+        id ? queryKeys.term(id) : null,
+        () => getTermById(id!)
+    );
 
     const handleAddComment = async () => {
         if (!commentText.trim()) return;
@@ -42,17 +38,13 @@ const TermDetails: React.FC = () => {
         setLoading(true);
         setError(null);
 
-        try {
-            await addComment(id!, { text: commentText, createdAt: new Date() });
+        const result = await addComment(id!, { text: commentText, createdAt: new Date() });
+        if (result.ok) {
             setCommentText('');
-            const updatedTerm = await getTermById(id!);
-            setTerm(updatedTerm);
-        } catch (error) {
-            console.error('Erreur lors de l\'ajout du commentaire', error);
+        } else {
             setError('Une erreur est survenue lors de l\'ajout du commentaire.');
-        } finally {
-            setLoading(false);
         }
+        setLoading(false);
     };
 
     return (
@@ -89,50 +81,88 @@ const TermDetails: React.FC = () => {
                             {term?.language.name} (Code: {term?.language.code})
                         </span>
                     </div>
-                    <div className="mb-4 p-4 bg-gray-100 rounded-lg shadow-[5px_5px_10px_#d1d9e6,-5px_-5px_10px_#ffffff]">
-                        <p className="font-semibold text-gray-800">Definition</p>
-                        <p>{term?.definition}</p>
-                    </div>
-                    <div className="mb-4 p-4 bg-gray-100 rounded-lg shadow-[5px_5px_10px_#d1d9e6,-5px_-5px_10px_#ffffff]">
-                        <p className="font-semibold text-gray-800">Translation</p>
-                        <p>{term?.translation}</p>
-                    </div>
-                    <button onClick={() => navigate(-1)} className="mt-4 p-3 bg-gray-400 text-white rounded-lg shadow-[5px_5px_10px_#b3b3b3,-5px_-5px_10px_#ffffff] hover:bg-gray-500 focus:outline-none">
-                        Retour
-                    </button>
-                    {user && (
-                        <div className="mt-8">
-                            <h3 className="text-xl font-bold mb-4">Add comment</h3>
-                            {error && <div className="mb-4 text-red-500">{error}</div>}
-                            <textarea
-                                value={commentText}
-                                onChange={(e) => setCommentText(e.target.value)}
-                                className="w-full p-3 rounded-lg shadow-inner bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500 mb-4"
-                                placeholder="Votre commentaire"
-                            ></textarea>
+                    <div role="tablist" aria-label="Term sections" className="flex gap-2 mb-4 border-b border-gray-300">
+                        {TABS.map(tab => (
                             <button
-                                onClick={handleAddComment}
-                                className="p-3 bg-gray-400 text-white rounded-lg shadow-[5px_5px_10px_#b3b3b3,-5px_-5px_10px_#ffffff] hover:bg-gray-500 focus:outline-none"
-                                disabled={loading}
+                                key={tab.id}
+                                role="tab"
+                                id={`term-tab-${tab.id}`}
+                                aria-selected={activeTab === tab.id}
+                                aria-controls={`term-panel-${tab.id}`}
+                                onClick={() => setActiveTab(tab.id)}
+                                className={`px-4 py-2 -mb-px border-b-2 focus:outline-none ${activeTab === tab.id ? 'border-gray-700 font-bold text-gray-800' : 'border-transparent text-gray-600'}`}
                             >
-                                {loading ? 'Chargement...' : 'Ajouter Commentaire'}
+                                {tab.label}
                             </button>
+                        ))}
+                    </div>
+                    {activeTab === 'history' && id ? (
+                        <div role="tabpanel" id="term-panel-history" aria-labelledby="term-tab-history">
+                            <TermHistory termId={id} />
                         </div>
-                    )}
-                    <div className="mt-8">
-                        <h3 className="text-xl font-bold mb-4">Commentaires</h3>
-                        {term?.comments && term?.comments.length > 0 ? (
-                            term?.comments.map((comment, index) => (
-                                <div key={index} className="mb-4 p-4 bg-gray-100 rounded-lg shadow-[5px_5px_10px_#d1d9e6,-5px_-5px_10px_#ffffff]">
-                                    <p className="text-sm text-gray-600">{comment.author}</p>
-                                    <p>{comment.text}</p>
-                                    <p className="text-xs text-gray-600">{new Date(comment.createdAt).toLocaleDateString()}</p>
+                    ) : (
+                        <div role="tabpanel" id="term-panel-details" aria-labelledby="term-tab-details">
+                            <div className="mb-4 p-4 bg-gray-100 rounded-lg shadow-[5px_5px_10px_#d1d9e6,-5px_-5px_10px_#ffffff]">
+                                <p className="font-semibold text-gray-800">Definition</p>
+                                <p>{term?.definition}</p>
+                            </div>
+                            <div className="mb-4 p-4 bg-gray-100 rounded-lg shadow-[5px_5px_10px_#d1d9e6,-5px_-5px_10px_#ffffff]">
+                                <p className="font-semibold text-gray-800">Translation</p>
+                                <p>{term?.translation}</p>
+                            </div>
+                            {term && user && (
+                                <div className="mb-4">
+                                    <VoteButtons term={term} user={user} />
                                 </div>
-                            ))
-                        ) : (
-                            <p className="text-gray-500">No comments. Be the first!</p>
-                        )}
-                    </div>
+                            )}
+                            <button onClick={() => navigate(-1)} className="mt-4 p-3 bg-gray-400 text-white rounded-lg shadow-[5px_5px_10px_#b3b3b3,-5px_-5px_10px_#ffffff] hover:bg-gray-500 focus:outline-none">
+                                Retour
+                            </button>
+                            {term?.isApproved && (
+                                <Can do="submit-term">
+                                    <Link
+                                        to={`/terms/${id}/suggest-edit`}
+                                        className="inline-block mt-4 ml-2 p-3 bg-gray-200 text-gray-700 rounded-lg shadow-[5px_5px_10px_#d1d9e6,-5px_-5px_10px_#ffffff] hover:bg-gray-300 focus:outline-none"
+                                    >
+                                        Suggest edit
+                                    </Link>
+                                </Can>
+                            )}
+                            {user && (
+                                <div className="mt-8">
+                                    <h3 className="text-xl font-bold mb-4">Add comment</h3>
+                                    {error && <div className="mb-4 text-red-500">{error}</div>}
+                                    <textarea
+                                        value={commentText}
+                                        onChange={(e) => setCommentText(e.target.value)}
+                                        className="w-full p-3 rounded-lg shadow-inner bg-gray-200 focus:outline-none focus:ring-2 focus:ring-gray-500 mb-4"
+                                        placeholder="Votre commentaire"
+                                    ></textarea>
+                                    <button
+                                        onClick={handleAddComment}
+                                        className="p-3 bg-gray-400 text-white rounded-lg shadow-[5px_5px_10px_#b3b3b3,-5px_-5px_10px_#ffffff] hover:bg-gray-500 focus:outline-none"
+                                        disabled={loading}
+                                    >
+                                        {loading ? 'Chargement...' : 'Ajouter Commentaire'}
+                                    </button>
+                                </div>
+                            )}
+                            <div className="mt-8">
+                                <h3 className="text-xl font-bold mb-4">Commentaires</h3>
+                                {term?.comments && term?.comments.length > 0 ? (
+                                    term?.comments.map((comment, index) => (
+                                        <div key={index} className="mb-4 p-4 bg-gray-100 rounded-lg shadow-[5px_5px_10px_#d1d9e6,-5px_-5px_10px_#ffffff]">
+                                            <p className="text-sm text-gray-600">{comment.author}</p>
+                                            <p>{comment.text}</p>
+                                            <p className="text-xs text-gray-600">{new Date(comment.createdAt).toLocaleDateString()}</p>
+                                        </div>
+                                    ))
+                                ) : (
+                                    <p className="text-gray-500">No comments. Be the first!</p>
+                                )}
+                            </div>
+                        </div>
+                    )}
                 </>
             )}
         </div>
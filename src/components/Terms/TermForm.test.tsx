@@ -38,18 +38,27 @@ describe('TermForm', () => {
     beforeEach(() => {
         jest.clearAllMocks();
         // Mock implementations for the services
-        (getCategories as jest.Mock).mockResolvedValue([
-            { _id: '1', name: 'Noun' },
-            { _id: '2', name: 'Verb' },
-        ]);
-        (getThemes as jest.Mock).mockResolvedValue([
-            { _id: '1', name: 'Nature' },
-            { _id: '2', name: 'Technology' },
-        ]);
-        (getLanguages as jest.Mock).mockResolvedValue([
-            { _id: '1', name: 'English', code: 'en' },
-            { _id: '2', name: 'French', code: 'fr' },
-        ]);
+        (getCategories as jest.Mock).mockResolvedValue({
+            ok: true,
+            data: [
+                { _id: '1', name: 'Noun' },
+                { _id: '2', name: 'Verb' },
+            ],
+        });
+        (getThemes as jest.Mock).mockResolvedValue({
+            ok: true,
+            data: [
+                { _id: '1', name: 'Nature' },
+                { _id: '2', name: 'Technology' },
+            ],
+        });
+        (getLanguages as jest.Mock).mockResolvedValue({
+            ok: true,
+            data: [
+                { _id: '1', name: 'English', code: 'en' },
+                { _id: '2', name: 'French', code: 'fr' },
+            ],
+        });
     });
 
     const renderWithProviders = (ui: React.ReactElement) => {
@@ -75,7 +84,7 @@ describe('TermForm', () => {
     });
 
     it('handles form submission for adding a term', async () => {
-        (addTerm as jest.Mock).mockResolvedValue({});
+        (addTerm as jest.Mock).mockResolvedValue({ ok: true, data: {} });
 
         renderWithProviders(<TermForm />);
 
@@ -89,11 +98,14 @@ describe('TermForm', () => {
         fireEvent.click(screen.getByRole('button', { name: /add/i }));
 
         await waitFor(() => expect(addTerm).toHaveBeenCalled());
+        // La navigation n'a lieu qu'à la fermeture de la confirmation
+        expect(mockNavigate).not.toHaveBeenCalled();
+        fireEvent.click(await screen.findByRole('button', { name: /ok/i }));
         expect(mockNavigate).toHaveBeenCalledWith('/');
     });
 
     it('handles form submission for updating a term', async () => {
-        (updateTerm as jest.Mock).mockResolvedValue({});
+        (updateTerm as jest.Mock).mockResolvedValue({ ok: true, data: {} });
 
         renderWithProviders(<TermForm termId="1" initialData={{
             term: 'Initial Term',
@@ -111,6 +123,9 @@ describe('TermForm', () => {
         fireEvent.click(screen.getByRole('button', { name: /edit/i }));
 
         await waitFor(() => expect(updateTerm).toHaveBeenCalled());
+        // La navigation n'a lieu qu'à la fermeture de la confirmation
+        expect(mockNavigate).not.toHaveBeenCalled();
+        fireEvent.click(await screen.findByRole('button', { name: /ok/i }));
         expect(mockNavigate).toHaveBeenCalledWith('/');
     });
 
@@ -1,9 +1,11 @@
-import React, { useState, useEffect } from 'react';
-import { addTerm, updateTerm } from '../../services/termService';
+import React, { useState, useEffect, useMemo } from 'react';
+import { addTerm, proposeTermEdit, updateTerm } from '../../services/termService';
 import { getCategories } from '../../services/categoryService';
 import { getThemes } from '../../services/themeService';
 import { getLanguages } from '../../services/languageService';
 import { useNavigate } from 'react-router-dom';
+import { useQuery } from '../../hooks/useQuery';
+import { queryKeys } from '../../services/queryKeys';
 
 interface TermFormProps {
     termId?: string;
@@ -15,9 +17,11 @@ interface TermFormProps {
         theme: string;
         language: string;
     };
+    // Avec termId : envoie une proposition aux modérateurs au lieu de modifier le terme
+    suggestEdit?: boolean;
 }
 
-const TermForm: React.FC<TermFormProps> = ({ termId, initialData }) => {
+const TermForm: React.FC<TermFormProps> = ({ termId, initialData, suggestEdit = false }) => {
     const [term, setTerm] = useState(initialData?.term || '');
     const [definition, setDefinition] = useState(initialData?.definition || '');
     const [translation, setTranslation] = useState(initialData?.translation || '');
@@ -27,9 +31,6 @@ const TermForm: React.FC<TermFormProps> = ({ termId, initialData }) => {
     const [newCategory, setNewCategory] = useState('');
     const [newTheme, setNewTheme] = useState('');
     const [newLanguage, setNewLanguage] = useState('');
-    const [categories, setCategories] = useState<{ _id: string, name: string }[]>([]);
-    const [themeOptions, setThemeOptions] = useState<{ _id: string, name: string }[]>([]);
-    const [languageOptions, setLanguageOptions] = useState<{ _id: string, name: string, code: string }[]>([]);
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const [rawValues, setRawValues] = useState({});
@@ -44,43 +45,39 @@ const TermForm: React.FC<TermFormProps> = ({ termId, initialData }) => {
         }));
     };
 
-    useEffect(() => {
-        const fetchData = async () => {
-            try {
-                const categoriesData = await getCategories();
-                const themesData = await getThemes();
-                const languagesData = await getLanguages();
-                setCategories([...categoriesData, { _id: 'other', name: 'Other' }]);
-                setThemeOptions([...themesData, { _id: 'other', name: 'Other' }]);
-                setLanguageOptions(Array.isArray(languagesData) ? [...languagesData, { _id: 'other', name: 'Other', code: '' }] : []);
+    const categoriesQuery = useQuery(queryKeys.approvedCategories, getCategories);
+    const themesQuery = useQuery(queryKeys.approvedThemes, getThemes);
+    const languagesQuery = useQuery(queryKeys.approvedLanguages, getLanguages);
 
-                if (categoriesData.length > 0 && !initialData?.grammaticalCategory) {
-                    setGrammaticalCategory(categoriesData[0].name);
-                }
-                if (themesData.length > 0 && !initialData?.theme) {
-                    setTheme(themesData[0].name);
-                }
-                if (languagesData.length > 0 && !initialData?.language) {
-                    setLanguage(languagesData[0].name);
-                }
-            } catch (error) {
-                console.error('Error loading data', error);
-                setError('Error loading data');
-            }
-        };
+    const categories = useMemo(
+        () => categoriesQuery.data ? [...categoriesQuery.data, { _id: 'other', name: 'Other' }] : [],
+        [categoriesQuery.data]
+    );
+    const themeOptions = useMemo(
+        () => themesQuery.data ? [...themesQuery.data, { _id: 'other', name: 'Other' }] : [],
+        [themesQuery.data]
+    );
+    const languageOptions = useMemo(
+        () => languagesQuery.data ? [...languagesQuery.data, { _id: 'other', name: 'Other', code: '' }] : [],
+        [languagesQuery.data]
+    );
 
-        fetchData();
-    }, [initialData]);
+    useEffect(() => {
+        if (categoriesQuery.error || themesQuery.error || languagesQuery.error) {
+            setError('Error loading data');
+        }
+    }, [categoriesQuery.error, themesQuery.error, languagesQuery.error]);
 
     useEffect(() => {
+        // Une revalidation du cache ne doit pas écraser le choix de l'utilisateur
         if (categories.length > 0 && !initialData?.grammaticalCategory) {
-            setGrammaticalCategory(categories[0].name);
+            setGrammaticalCategory(current => current || categories[0].name);
         }
         if (themeOptions.length > 0 && !initialData?.theme) {
-            setTheme(themeOptions[0].name);
+            setTheme(current => current || themeOptions[0].name);
         }
         if (languageOptions.length > 0 && !initialData?.language) {
-            setLanguage(languageOptions[0].name);
+            setLanguage(current => current || languageOptions[0].name);
         }
     }, [categories, themeOptions, languageOptions, initialData]);
 
@@ -103,13 +100,17 @@ const TermForm: React.FC<TermFormProps> = ({ termId, initialData }) => {
         };
 
         try {
-            if (termId) {
-                await updateTerm(termId, termData);
+            const result = termId
+                ? suggestEdit ? await proposeTermEdit(termId, termData) : await updateTerm(termId, termData)
+                : await addTerm(termData);
+            if (result.ok) {
+                setModalMessage(suggestEdit
+                    ? "Your suggestion has been sent. A moderator will compare it with the current version soon."
+                    : "Your term has been submitted successfully. A moderator is going to review it soon.");
+                setShowModal(true);
             } else {
-                await addTerm(termData);
+                setError('An error occurred while submitting the term.');
             }
-            setModalMessage("Your term has been submitted successfully. A moderator is going to review it soon.");
-            setShowModal(true);
         } catch (error) {
             console.error('Error submitting term', error);
             setError('An error occurred while submitting the term.');
@@ -150,7 +151,7 @@ const TermForm: React.FC<TermFormProps> = ({ termId, initialData }) => {
 
     const handleCloseModal = () => {
         setShowModal(false);
-        navigate('/');
+        navigate(suggestEdit && termId ? `/terms/${termId}` : '/');
     };
 
     const Modal: React.FC<{ message: string; onClose: () => void }> = ({ message, onClose }) => {
@@ -173,7 +174,7 @@ const TermForm: React.FC<TermFormProps> = ({ termId, initialData }) => {
     return (
         <div>
             <form onSubmit={handleSubmit} className="max-w-md mx-auto mt-10 p-6 bg-gray-100 rounded-lg shadow-[5px_5px_10px_#d1d9e6,-5px_-5px_10px_#ffffff]">
-                <h2 className="text-2xl font-bold mb-4">{termId ? 'Edit Term' : 'Add Term'}</h2>
+                <h2 className="text-2xl font-bold mb-4">{suggestEdit ? 'Suggest an edit' : termId ? 'Edit Term' : 'Add Term'}</h2>
                 {error && <div className="mb-4 text-red-500">{error}</div>}
                 <div className="mb-4">
                     <label className="block mb-2 text-gray-800" htmlFor="term">Term</label>
@@ -306,7 +307,7 @@ const TermForm: React.FC<TermFormProps> = ({ termId, initialData }) => {
                     className="w-full p-3 text-white rounded-lg bg-gray-400 shadow-[5px_5px_10px_#b3b3b3,-5px_-5px_10px_#ffffff] hover:bg-gray-500 focus:outline-none"
                     disabled={loading}
                 >
-                    {loading ? 'Loading...' : termId ? 'Edit' : 'Add'}
+                    {loading ? 'Loading...' : suggestEdit ? 'Send suggestion' : termId ? 'Edit' : 'Add'}
                 </button>
             </form>
             {showModal && <Modal message={modalMessage} onClose={handleCloseModal} />}
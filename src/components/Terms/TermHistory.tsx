@@ -0,0 +1,128 @@
+import React, { useMemo, useState } from 'react';
+import Skeleton from 'react-loading-skeleton';
+import 'react-loading-skeleton/dist/skeleton.css';
+import { getTermRevisions, revertTerm } from '../../services/termService';
+import { notifySuccess } from '../../services/notificationService';
+import { queryKeys } from '../../services/queryKeys';
+import { useQuery } from '../../hooks/useQuery';
+import { RevisionStatus } from '../../models/termModel';
+import { buildRevisionHistory, REVISION_FIELD_LABELS } from '../../utils/termRevisions';
+import Can from '../Can';
+import RevisionChanges from './RevisionChanges';
+
+interface TermHistoryProps {
+    termId: string;
+}
+
+const STATUS_CLASSES: Record<RevisionStatus, string> = {
+    approved: 'bg-green-200 text-green-800',
+    pending: 'bg-yellow-200 text-yellow-800',
+    rejected: 'bg-red-200 text-red-800',
+};
+
+const TermHistory: React.FC<TermHistoryProps> = ({ termId }) => {
+    const { data: revisions, loading, error } = useQuery(
+        queryKeys.termRevisions(termId),
+        () => getTermRevisions(termId)
+    );
+    const history = useMemo(() => buildRevisionHistory(revisions ?? []), [revisions]);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [confirmingRevert, setConfirmingRevert] = useState(false);
+    const [reverting, setReverting] = useState(false);
+
+    const selected = history.find(entry => entry.revision._id === selectedId) ?? history[0];
+    // La version en ligne est la dernière approuvée ; les plus récentes peuvent être en attente
+    const isCurrentVersion = selected === history.find(entry => entry.revision.status === 'approved');
+
+    const handleSelect = (id: string) => {
+        setSelectedId(id);
+        setConfirmingRevert(false);
+    };
+
+    const handleRevert = async () => {
+        if (!selected) return;
+        setReverting(true);
+        const result = await revertTerm(termId, selected.revision._id);
+        if (result.ok) {
+            notifySuccess('The term was restored to this version and is awaiting approval.');
+        }
+        setConfirmingRevert(false);
+        setReverting(false);
+    };
+
+    if (loading) {
+        return <Skeleton count={4} height={48} className="mb-2" />;
+    }
+
+    if (error) {
+        return <p className="text-red-500">The history of this term could not be loaded.</p>;
+    }
+
+    if (history.length === 0) {
+        return <p className="text-gray-500">No revisions recorded for this term yet.</p>;
+    }
+
+    return (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <ul className="md:col-span-1 space-y-2" aria-label="Revisions">
+                {history.map(entry => {
+                    const { revision } = entry;
+                    const isSelected = entry === selected;
+                    return (
+                        <li key={revision._id}>
+                            <button
+                                onClick={() => handleSelect(revision._id)}
+                                aria-current={isSelected}
+                                className={`w-full text-left p-3 rounded-lg focus:outline-none focus:ring-2 focus:ring-gray-500 ${isSelected ? 'bg-gray-300 shadow-inner' : 'bg-gray-100 shadow-[3px_3px_6px_#d1d9e6,-3px_-3px_6px_#ffffff]'}`}
+                            >
+                                <span className="block font-semibold">{revision.author}</span>
+                                <span className="block text-xs text-gray-600">{new Date(revision.createdAt).toLocaleString()}</span>
+                                <span className="flex flex-wrap gap-1 mt-1">
+                                    <span className={`text-xs px-2 rounded-full ${STATUS_CLASSES[revision.status]}`}>{revision.status}</span>
+                                    {entry.changedFields.map(field => (
+                                        <span key={field} className="text-xs px-2 rounded-full bg-blue-100 text-blue-800">
+                                            {REVISION_FIELD_LABELS[field]}
+                                        </span>
+                                    ))}
+                                </span>
+                            </button>
+                        </li>
+                    );
+                })}
+            </ul>
+            {selected && (
+                <section className="md:col-span-2" aria-label="Changes in this revision">
+                    <RevisionChanges entry={selected} />
+                    {!isCurrentVersion && selected.revision.status === 'approved' && (
+                        <Can do="approve-term">
+                            {confirmingRevert ? (
+                                <div className="flex flex-wrap items-center gap-2">
+                                    <span className="text-sm text-gray-700">The term will go back to moderation with this content.</span>
+                                    <button
+                                        onClick={handleRevert}
+                                        disabled={reverting}
+                                        className="p-2 bg-red-500 text-white rounded-md focus:outline-none"
+                                    >
+                                        {reverting ? 'Reverting...' : 'Confirm revert'}
+                                    </button>
+                                    <button onClick={() => setConfirmingRevert(false)} className="p-2 text-gray-600 underline focus:outline-none">
+                                        Cancel
+                                    </button>
+                                </div>
+                            ) : (
+                                <button
+                                    onClick={() => setConfirmingRevert(true)}
+                                    className="p-3 bg-gray-400 text-white rounded-lg shadow-[5px_5px_10px_#b3b3b3,-5px_-5px_10px_#ffffff] hover:bg-gray-500 focus:outline-none"
+                                >
+                                    Revert to this version
+                                </button>
+                            )}
+                        </Can>
+                    )}
+                </section>
+            )}
+        </div>
+    );
+};
+
+export default TermHistory;
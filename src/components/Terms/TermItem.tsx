@@ -1,60 +1,24 @@
-import React, { useState, useEffect } from "react";
+import React, { useState } from "react";
 import { Link } from "react-router-dom";
-import { getVotes } from "../../services/termService";
-import DownvoteIcon from "./DownvoteIcon";
-import UpvoteIcon from "./UpvoteIcon";
+import VoteButtons from "./VoteButtons";
+import Highlight from "./Highlight";
 import BookmarkIcon from '@mui/icons-material/Bookmark';
 import BookmarkBorderIcon from '@mui/icons-material/BookmarkBorder';
 import { Term } from "../../models/termModel";
 import { User } from "../../models/userModel";
+import { TermHighlights } from "../../utils/search";
 
 interface TermItemProps {
     term: Term;
     user: User | null;
-    handleUpvote: (termId: string) => void;
-    handleDownvote: (termId: string) => void;
     handleBookmark: (termId: string) => void;
     handleUnbookmark: (termId: string) => void;
+    highlights?: TermHighlights;
 }
 
-const TermItem: React.FC<TermItemProps> = ({ term, user, handleUpvote, handleDownvote, handleBookmark, handleUnbookmark }) => {
-    const [votes, setVotes] = useState<{ upvotes: number; downvotes: number }>({ upvotes: 0, downvotes: 0 });
-    const [userHasUpvoted, setUserHasUpvoted] = useState(user ? term.upvotedBy.includes(user!._id):false);
-    const [userHasDownvoted, setUserHasDownvoted] = useState(user ? term.downvotedBy.includes(user!._id): false);
+const TermItem: React.FC<TermItemProps> = ({ term, user, handleBookmark, handleUnbookmark, highlights }) => {
     const [userHasBookmarked, setUserHasBookmarked] = useState(user ? term.bookmarkedBy.includes(user!._id): false);
 
-    useEffect(() => {
-        const fetchVotes = async () => {
-            const data = await getVotes(term._id);
-            if (data) {
-                setVotes(data);
-            }
-        };
-        fetchVotes();
-    }, [term._id]);
-
-    const handleUpvoteClick = () => {
-        handleUpvote(term._id);
-        if (userHasUpvoted) {
-            setVotes(prevVotes => ({ ...prevVotes, upvotes: prevVotes.upvotes - 1 }));
-        } else {
-            setVotes(prevVotes => ({ ...prevVotes, upvotes: prevVotes.upvotes + 1, downvotes: userHasDownvoted ? prevVotes.downvotes - 1 : prevVotes.downvotes }));
-            setUserHasDownvoted(false);
-        }
-        setUserHasUpvoted(!userHasUpvoted);
-    };
-
-    const handleDownvoteClick = () => {
-        handleDownvote(term._id);
-        if (userHasDownvoted) {
-            setVotes(prevVotes => ({ ...prevVotes, downvotes: prevVotes.downvotes - 1 }));
-        } else {
-            setVotes(prevVotes => ({ ...prevVotes, downvotes: prevVotes.downvotes + 1, upvotes: userHasUpvoted ? prevVotes.upvotes - 1 : prevVotes.upvotes }));
-            setUserHasUpvoted(false);
-        }
-        setUserHasDownvoted(!userHasDownvoted);
-    };
-
     const handleBookmarkClick = () => {
         if (userHasBookmarked) {
             handleUnbookmark(term._id);
@@ -69,9 +33,9 @@ const TermItem: React.FC<TermItemProps> = ({ term, user, handleUpvote, handleDow
         <li className="flex flex-col justify-between mb-4 p-4 bg-gray-100 rounded-lg shadow-[3px_3px_6px_#c5c5c5,-3px_-3px_6px_#ffffff] transition-transform transform hover:scale-105">
             <div>
                 <Link to={`/terms/${term._id}`}>
-                    <h3 className="text-xl font-bold text-gray-800">{term.term}</h3>
-                    <p className="text-gray-600">{term.translation}</p>
-                    <p className="text-gray-800">{term.definition}</p>
+                    <h3 className="text-xl font-bold text-gray-800"><Highlight text={term.term} ranges={highlights?.term} /></h3>
+                    <p className="text-gray-600"><Highlight text={term.translation} ranges={highlights?.translation} /></p>
+                    <p className="text-gray-800"><Highlight text={term.definition} ranges={highlights?.definition} /></p>
                     {term.language && (
                         <p className="text-gray-800">Language {term.language.name} ({term.language.code})</p>
                     )}
@@ -95,22 +59,7 @@ const TermItem: React.FC<TermItemProps> = ({ term, user, handleUpvote, handleDow
                         >
                             {userHasBookmarked ? <BookmarkIcon /> : <BookmarkBorderIcon />}
                         </button>
-                        <div className="flex items-center space-x-2 justify-end w-full"><span className="text-green-600">{votes.upvotes}</span>
-                            <button
-                                onClick={handleUpvoteClick}
-                                className={`flex justify-center items-center w-10 h-10 rounded-full hover:text-green-600 bg-gray-100 hover:bg-green-100 focus:outline-none transition duration-200 ${userHasUpvoted ? 'text-green-600' : 'text-gray-300'} shadow-neumorphic hover:shadow-neumorphic-inset`}
-                            >
-                                <UpvoteIcon isUpvoted={userHasUpvoted} />
-                            </button>
-                            <button
-                                onClick={handleDownvoteClick}
-                                className={`flex justify-center items-center w-10 h-10 rounded-full hover:text-red-600 bg-gray-100 hover:bg-red-100 focus:outline-none transition duration-200 ${userHasDownvoted ? 'text-red-600' : 'text-gray-300'} shadow-neumorphic hover:shadow-neumorphic-inset`}
-                            >
-                                <DownvoteIcon isDownvoted={userHasDownvoted} />
-                            </button>
-                            <span className="text-red-600">{votes.downvotes}</span></div>
-
-
+                        <VoteButtons term={term} user={user} />
                     </div>
                 )}
             </div>
@@ -0,0 +1,44 @@
+import React from 'react';
+import DownvoteIcon from './DownvoteIcon';
+import UpvoteIcon from './UpvoteIcon';
+import { useTermVote } from '../../hooks/useTermVote';
+import { Term } from '../../models/termModel';
+import { User } from '../../models/userModel';
+
+interface VoteButtonsProps {
+    term: Term;
+    user: User;
+}
+
+const VoteButtons: React.FC<VoteButtonsProps> = ({ term, user }) => {
+    const { voteState, counts, pending, upvote, downvote } = useTermVote(term, user);
+    const isUpvoted = voteState === 'up';
+    const isDownvoted = voteState === 'down';
+
+    return (
+        <div className="flex items-center space-x-2 justify-end w-full">
+            <span className="text-green-600">{counts.upvotes}</span>
+            <button
+                onClick={upvote}
+                disabled={pending}
+                aria-pressed={isUpvoted}
+                aria-label="Upvote"
+                className={`flex justify-center items-center w-10 h-10 rounded-full hover:text-green-600 bg-gray-100 hover:bg-green-100 focus:outline-none transition duration-200 ${isUpvoted ? 'text-green-600' : 'text-gray-300'} shadow-neumorphic hover:shadow-neumorphic-inset`}
+            >
+                <UpvoteIcon isUpvoted={isUpvoted} />
+            </button>
+            <button
+                onClick={downvote}
+                disabled={pending}
+                aria-pressed={isDownvoted}
+                aria-label="Downvote"
+                className={`flex justify-center items-center w-10 h-10 rounded-full hover:text-red-600 bg-gray-100 hover:bg-red-100 focus:outline-none transition duration-200 ${isDownvoted ? 'text-red-600' : 'text-gray-300'} shadow-neumorphic hover:shadow-neumorphic-inset`}
+            >
+                <DownvoteIcon isDownvoted={isDownvoted} />
+            </button>
+            <span className="text-red-600">{counts.downvotes}</span>
+        </div>
+    );
+};
+
+export default VoteButtons;
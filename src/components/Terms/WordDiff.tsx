@@ -0,0 +1,43 @@
+import React from 'react';
+import { diffWords } from '../../utils/diff';
+
+interface WordDiffProps {
+    label: string;
+    before: string;
+    after: string;
+}
+
+// Comparaison côte à côte : mots retirés à gauche, mots ajoutés à droite
+const WordDiff: React.FC<WordDiffProps> = ({ label, before, after }) => {
+    const parts = diffWords(before, after);
+
+    return (
+        <div className="mb-4">
+            <p className="font-semibold text-gray-800 mb-1">{label}</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                <div className="p-3 bg-white rounded-lg shadow-inner">
+                    <p className="text-xs uppercase text-gray-500 mb-1">Before</p>
+                    <p className="whitespace-pre-wrap">
+                        {parts.filter(part => part.type !== 'added').map((part, index) =>
+                            part.type === 'removed'
+                                ? <del key={index} className="bg-red-100 text-red-800">{part.value}</del>
+                                : <span key={index}>{part.value}</span>
+                        )}
+                    </p>
+                </div>
+                <div className="p-3 bg-white rounded-lg shadow-inner">
+                    <p className="text-xs uppercase text-gray-500 mb-1">After</p>
+                    <p className="whitespace-pre-wrap">
+                        {parts.filter(part => part.type !== 'removed').map((part, index) =>
+                            part.type === 'added'
+                                ? <ins key={index} className="bg-green-100 text-green-800 no-underline">{part.value}</ins>
+                                : <span key={index}>{part.value}</span>
+                        )}
+                    </p>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default WordDiff;
@@ -1,36 +1,40 @@
 import React, { useEffect, useState, useCallback } from 'react';
 import { getUserProfile } from '../../services/userService';
-import { bookmarkTerm, downvoteTerm, getBookmarks, unbookmarkTerm, upvoteTerm } from '../../services/termService';
+import { bookmarkTerm, getBookmarks, getMyTerms, unbookmarkTerm } from '../../services/termService';
+import { queryKeys } from '../../services/queryKeys';
+import { useQuery } from '../../hooks/useQuery';
 import { useAuth } from '../../contexts/authContext';
-import { useNavigate } from 'react-router-dom';
+import { Link, useNavigate } from 'react-router-dom';
 import Skeleton from 'react-loading-skeleton';
 import 'react-loading-skeleton/dist/skeleton.css';
 import TermItem from '../Terms/TermItem';
+import Pagination from '../Pagination';
+import { PAGE_SIZE_OPTIONS } from '../../utils/pagination';
+import { Term } from '../../models/termModel';
+import { UserProfile } from '../../models/userModel';
 
 const ProfilePage: React.FC = () => {
-    const [userProfile, setUserProfile] = useState<any>(null);
+    const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
     const [loading, setLoading] = useState<boolean>(true);
     const [error, setError] = useState<string | null>(null);
-    const [bookmarkedTerms, setBookmarkedTerms] = useState<any[]>([]);
+    const [bookmarkedTerms, setBookmarkedTerms] = useState<Term[]>([]);
     const [bookmarksLoading, setBookmarksLoading] = useState<boolean>(true);
     const [currentPage, setCurrentPage] = useState<number>(1);
     const [totalPages, setTotalPages] = useState<number>(1);
     const { user } = useAuth();
     const navigate = useNavigate();
-    const termsPerPage: number = 10;
+    const [termsPerPage, setTermsPerPage] = useState<number>(PAGE_SIZE_OPTIONS[0]);
+    const { data: rejectedTerms } = useQuery(user ? queryKeys.myTerms(user._id, 'rejected') : null, () => getMyTerms('rejected'));
 
     const fetchBookmarks = useCallback(async (page: number) => {
         setBookmarksLoading(true);
-        try {
-            const data = await getBookmarks(page.toString(), termsPerPage.toString());
-            setBookmarkedTerms(data.bookmarks);
-            setCurrentPage(data.currentPage);
-            setTotalPages(data.totalPages);
-        } catch (error) {
-            console.error('Erreur de chargement des bookmarks', error);
-        } finally {
-            setBookmarksLoading(false);
+        const result = await getBookmarks(page.toString(), termsPerPage.toString());
+        if (result.ok) {
+            setBookmarkedTerms(result.data.bookmarks);
+            setCurrentPage(result.data.currentPage);
+            setTotalPages(result.data.totalPages);
         }
+        setBookmarksLoading(false);
     }, [termsPerPage]);
 
     useEffect(() => {
@@ -39,15 +43,13 @@ const ProfilePage: React.FC = () => {
                 navigate('/login');
                 return;
             }
-            try {
-                const data = await getUserProfile();
-                setUserProfile(data);
-            } catch (error) {
-                console.error('Erreur de chargement du profil utilisateur', error);
+            const result = await getUserProfile();
+            if (result.ok) {
+                setUserProfile(result.data);
+            } else {
                 setError('Erreur de chargement du profil utilisateur.');
-            } finally {
-                setLoading(false);
             }
+            setLoading(false);
         };
 
         fetchUserProfile();
@@ -59,51 +61,9 @@ const ProfilePage: React.FC = () => {
         }
     }, [user, currentPage, fetchBookmarks]);
 
-    const handleUpvote = async (id: string) => {
-        try {
-            await upvoteTerm(id);
-            setBookmarkedTerms(prevTerms =>
-                prevTerms.map(term => {
-                    if (term._id === id) {
-                        const isUpvoted = term.upvotedBy.includes(user!._id);
-                        const upvotedBy = isUpvoted
-                            ? term.upvotedBy.filter((userId: string) => userId !== user!._id)
-                            : [...term.upvotedBy, user!._id];
-                        const downvotedBy = term.downvotedBy.filter((userId: string) => userId !== user!._id);
-                        return { ...term, upvotedBy, downvotedBy };
-                    }
-                    return term;
-                })
-            );
-        } catch (error) {
-            console.error('Erreur lors de l\'upvote', error);
-        }
-    };
-
-    const handleDownvote = async (id: string) => {
-        try {
-            await downvoteTerm(id);
-            setBookmarkedTerms(prevTerms =>
-                prevTerms.map(term => {
-                    if (term._id === id) {
-                        const isDownvoted = term.downvotedBy.includes(user!._id);
-                        const downvotedBy = isDownvoted
-                            ? term.downvotedBy.filter((userId: string) => userId !== user!._id)
-                            : [...term.downvotedBy, user!._id];
-                        const upvotedBy = term.upvotedBy.filter((userId: string) => userId !== user!._id);
-                        return { ...term, upvotedBy, downvotedBy };
-                    }
-                    return term;
-                })
-            );
-        } catch (error) {
-            console.error('Erreur lors de l\'downvote', error);
-        }
-    };
-
     const handleBookmark = async (id: string) => {
-        try {
-            await bookmarkTerm(id);
+        const result = await bookmarkTerm(id);
+        if (result.ok) {
             setBookmarkedTerms(prevTerms =>
                 prevTerms.map(term => {
                     if (term._id === id) {
@@ -112,14 +72,12 @@ const ProfilePage: React.FC = () => {
                     return term;
                 })
             );
-        } catch (error) {
-            console.error('Erreur lors de l\'bookmark', error);
         }
     };
 
     const handleUnbookmark = async (id: string) => {
-        try {
-            await unbookmarkTerm(id);
+        const result = await unbookmarkTerm(id);
+        if (result.ok) {
             setBookmarkedTerms(prevTerms =>
                 prevTerms.map(term => {
                     if (term._id === id) {
@@ -128,13 +86,16 @@ const ProfilePage: React.FC = () => {
                     return term;
                 })
             );
-        } catch (error) {
-            console.error('Erreur lors de l\'unbookmark', error);
         }
     };
 
     const paginate = (pageNumber: number) => setCurrentPage(pageNumber);
 
+    const handlePageSizeChange = (size: number) => {
+        setTermsPerPage(size);
+        setCurrentPage(1);
+    };
+
     return (
         <div className="max-w-7xl mx-auto mt-10 p-6 flex flex-col bg-gray-200 justify-center items-center rounded-lg shadow-[3px_3px_6px_#c5c5c5,-3px_-3px_6px_#ffffff]">
             <div className="space-y-6 flex flex-col w-1/3 text-center">
@@ -148,11 +109,11 @@ const ProfilePage: React.FC = () => {
                     <>
                         <div className="p-4 bg-gray-200 w-full rounded-lg shadow-[3px_3px_6px_#c5c5c5,-3px_-3px_6px_#ffffff]">
                             <span className="block text-lg font-semibold text-gray-700">Username</span>
-                            <span className="block mt-2 text-xl text-gray-900">{userProfile.username}</span>
+                            <span className="block mt-2 text-xl text-gray-900">{userProfile?.username}</span>
                         </div>
                         <div className="p-4 bg-gray-200 rounded-lg w-full shadow-[3px_3px_6px_#c5c5c5,-3px_-3px_6px_#ffffff]">
                             <span className="block text-lg font-semibold text-gray-700">Role</span>
-                            <span className="block mt-2 text-xl text-gray-900">{userProfile.role}</span>
+                            <span className="block mt-2 text-xl text-gray-900">{userProfile?.role}</span>
                         </div>
                         <button
                             onClick={() => navigate('/update-profile')}
@@ -163,8 +124,27 @@ const ProfilePage: React.FC = () => {
                     </>
                 )}
             </div>
+            {rejectedTerms && rejectedTerms.length > 0 && (
+                <div className="mt-10 w-full">
+                    <h3 className="text-2xl font-bold mb-4 text-center text-gray-800">Rejected submissions</h3>
+                    <ul className="space-y-4">
+                        {rejectedTerms.map(term => (
+                            <li key={term._id} className="p-4 bg-gray-100 rounded-lg shadow-[3px_3px_6px_#c5c5c5,-3px_-3px_6px_#ffffff]">
+                                <span className="block text-lg font-semibold text-gray-800">{term.term}</span>
+                                <span className="block text-gray-600">{term.translation}</span>
+                                <p className="mt-2 text-gray-800">
+                                    <span className="font-semibold">Reason:</span> {term.rejectionReason || 'No reason was given.'}
+                                </p>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
             <div className="mt-10 w-full">
                 <h3 className="text-2xl font-bold mb-4 text-center text-gray-800">Bookmarked Terms</h3>
+                <div className="mb-4 text-center">
+                    <Link to="/terms/deck-export" className="text-gray-600 underline">Export bookmarks as flashcards</Link>
+                </div>
                 {bookmarksLoading ? (
                     <ul className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                         {Array.from({ length: termsPerPage }).map((_, index) => (
@@ -189,39 +169,23 @@ const ProfilePage: React.FC = () => {
                                 key={term._id}
                                 term={term}
                                 user={user}
-                                handleUpvote={handleUpvote}
-                                handleDownvote={handleDownvote}
                                 handleBookmark={handleBookmark}
                                 handleUnbookmark={handleUnbookmark}
                             />
                         ))}
                     </ul>
                 )}
-                <Pagination currentPage={currentPage} totalPages={totalPages} paginate={paginate} />
+                <Pagination
+                    currentPage={currentPage}
+                    pageSize={termsPerPage}
+                    totalPages={totalPages}
+                    onPageChange={paginate}
+                    onPageSizeChange={handlePageSizeChange}
+                    loading={bookmarksLoading}
+                />
             </div>
         </div>
     );
 };
 
-const Pagination: React.FC<{ currentPage: number; totalPages: number; paginate: (pageNumber: number) => void }> = ({ currentPage, totalPages, paginate }) => {
-    const pageNumbers = Array.from({ length: totalPages }, (_, i) => i + 1);
-
-    return (
-        <nav className="mt-4">
-            <ul className="inline-flex -space-x-px">
-                {pageNumbers.map(number => (
-                    <li key={number}>
-                        <button
-                            onClick={() => paginate(number)}
-                            className={`px-3 py-2 leading-tight text-gray-500 bg-gray-100 border border-gray-300 hover:bg-gray-200 hover:text-gray-700 rounded-lg shadow-lg ${currentPage === number ? 'bg-blue-500 text-white' : ''}`}
-                        >
-                            {number}
-                        </button>
-                    </li>
-                ))}
-            </ul>
-        </nav>
-    );
-};
-
 export default ProfilePage;
@@ -4,7 +4,7 @@ import { updateUserProfile } from '../../services/userService';
 import { useAuth } from '../../contexts/authContext';
 
 const UpdateProfile: React.FC = () => {
-    const { user, setUser, logout } = useAuth();
+    const { user, logout } = useAuth();
     const [username, setUsername] = useState<string>(user?.username || '');
     const [password, setPassword] = useState<string>('');
     const [loading, setLoading] = useState<boolean>(false);
@@ -16,16 +16,14 @@ const UpdateProfile: React.FC = () => {
         setLoading(true);
         setError(null);
 
-        try {
-            const updatedUser = await updateUserProfile({ username, password });
-            setUser(updatedUser); // Mettre à jour le contexte utilisateur avec les nouvelles informations
+        const result = await updateUserProfile({ username, password });
+        if (result.ok) {
+            // Le token contient l'ancien nom d'utilisateur : on force une reconnexion
             logout();
-        } catch (error) {
-            console.error('Error while uploading profile', error);
+        } else {
             setError('Erreh while uploading profile.');
-        } finally {
-            setLoading(false);
         }
+        setLoading(false);
     };
 
     return (
@@ -1,5 +1,5 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { getCurrentUser, logout as authLogout, isTokenExpired } from '../services/authService';
+import { getCurrentUser, logout as authLogout, isTokenExpired, onSessionChange, refreshSession } from '../services/authService';
 import { User } from '../models/userModel';
 
 
@@ -42,9 +42,37 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     setLoading(false);
   };
 
+  useEffect(() => {
+    // Les intercepteurs de api.ts rafraîchissent le token ou expirent la session
+    return onSessionChange(setUser);
+  }, []);
+
+  useEffect(() => {
+    // Synchronise les autres onglets : login, logout, changement de rôle et refresh
+    // passent tous par localStorage, qui émet un évènement "storage" ailleurs
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key !== null && event.key !== 'user') {
+        return;
+      }
+      setUser(event.newValue ? JSON.parse(event.newValue) : null);
+      setLoading(false);
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => {
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, []);
+
   useEffect(() => {
     const user = getCurrentUser();
     if (user && isTokenExpired(user.token)) {
+      if (user.refreshToken) {
+        refreshSession()
+          .catch(() => logout())
+          .finally(() => setLoading(false));
+        return;
+      }
       logout();
     } else {
       setUser(user);
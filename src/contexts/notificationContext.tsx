@@ -0,0 +1,48 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, ReactNode } from 'react';
+import { Notification } from '../models/notificationModel';
+import { notify, onNotification, NotificationInput } from '../services/notificationService';
+import ToastContainer from '../components/Notifications/ToastContainer';
+
+const MAX_VISIBLE_NOTIFICATIONS = 5;
+
+export interface NotificationContextType {
+  notifications: Notification[];
+  notify: (notification: NotificationInput) => string;
+  dismiss: (id: string) => void;
+}
+
+export const NotificationContext = createContext<NotificationContextType | null>(null);
+
+export const useNotifications = () => {
+  const context = useContext(NotificationContext);
+  if (!context) {
+    throw new Error('useNotifications must be used within a NotificationProvider');
+  }
+  return context;
+};
+
+interface NotificationProviderProps {
+  children: ReactNode;
+}
+
+export const NotificationProvider: React.FC<NotificationProviderProps> = ({ children }) => {
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+
+  const dismiss = useCallback((id: string) => {
+    setNotifications((prev) => prev.filter((notification) => notification.id !== id));
+  }, []);
+
+  useEffect(() => {
+    // Les plus récentes en dernier ; au-delà de la limite on retire les plus anciennes
+    return onNotification((notification) => {
+      setNotifications((prev) => [...prev, notification].slice(-MAX_VISIBLE_NOTIFICATIONS));
+    });
+  }, []);
+
+  return (
+    <NotificationContext.Provider value={{ notifications, notify, dismiss }}>
+      {children}
+      <ToastContainer notifications={notifications} onDismiss={dismiss} />
+    </NotificationContext.Provider>
+  );
+};
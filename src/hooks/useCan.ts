@@ -0,0 +1,12 @@
+import { useCallback } from 'react';
+import { useAuth } from '../contexts/authContext';
+import { Capability, hasCapability } from '../utils/permissions';
+
+export const useCan = () => {
+    const { user } = useAuth();
+
+    return useCallback(
+        (capability: Capability) => hasCapability(user?.role, capability),
+        [user]
+    );
+};
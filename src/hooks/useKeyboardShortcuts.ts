@@ -0,0 +1,33 @@
+import { useEffect, useRef } from 'react';
+
+const isEditableTarget = (target: EventTarget | null) =>
+    target instanceof HTMLElement &&
+    (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+// Espace et Entrée gardent leur comportement natif sur les vrais boutons et liens
+const isNativeControl = (target: EventTarget | null) =>
+    target instanceof HTMLElement && ['BUTTON', 'A'].includes(target.tagName);
+
+// Raccourcis globaux indexés par `event.key`, ignorés pendant la saisie dans un champ
+export const useKeyboardShortcuts = (shortcuts: Record<string, () => void>, enabled: boolean = true) => {
+    // Toujours la dernière version des actions, sans réabonner l'écouteur à chaque rendu
+    const shortcutsRef = useRef(shortcuts);
+    shortcutsRef.current = shortcuts;
+
+    useEffect(() => {
+        if (!enabled) return;
+
+        const handleKeyDown = (event: KeyboardEvent) => {
+            if (event.altKey || event.ctrlKey || event.metaKey || isEditableTarget(event.target)) return;
+            if ((event.key === ' ' || event.key === 'Enter') && isNativeControl(event.target)) return;
+            const action = shortcutsRef.current[event.key];
+            if (action) {
+                event.preventDefault();
+                action();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [enabled]);
+};
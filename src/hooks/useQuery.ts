@@ -0,0 +1,53 @@
+import { useEffect, useRef, useState } from 'react';
+import { ApiResult } from '../services/apiClient';
+import { cachedQuery, getQueryData, subscribeToQuery } from '../services/queryCache';
+import { AppError } from '../utils/types';
+
+export const useQuery = <T>(
+    key: string | null,
+    fetcher: () => Promise<ApiResult<T>>,
+    staleTime?: number
+) => {
+    const [data, setData] = useState<T | undefined>(() => (key ? getQueryData<T>(key) : undefined));
+    const [loading, setLoading] = useState<boolean>(key !== null && data === undefined);
+    const [error, setError] = useState<AppError | null>(null);
+    const fetcherRef = useRef(fetcher);
+    fetcherRef.current = fetcher;
+
+    useEffect(() => {
+        if (!key) {
+            return;
+        }
+        let active = true;
+        const cached = getQueryData<T>(key);
+        setData(cached);
+        setLoading(cached === undefined);
+
+        // Les revalidations en arrière-plan et les invalidations passent par cet abonnement
+        const unsubscribe = subscribeToQuery(key, () => {
+            if (active) {
+                setData(getQueryData<T>(key));
+            }
+        });
+
+        cachedQuery(key, () => fetcherRef.current(), staleTime).then((result) => {
+            if (!active) {
+                return;
+            }
+            if (result.ok) {
+                setData(result.data);
+                setError(null);
+            } else {
+                setError(result.error);
+            }
+            setLoading(false);
+        });
+
+        return () => {
+            active = false;
+            unsubscribe();
+        };
+    }, [key, staleTime]);
+
+    return { data, loading, error };
+};
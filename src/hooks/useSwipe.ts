@@ -0,0 +1,34 @@
+import { useRef } from 'react';
+
+const MIN_SWIPE_DISTANCE = 50;
+
+interface SwipeHandlers {
+    onSwipeLeft?: () => void;
+    onSwipeRight?: () => void;
+}
+
+// Gestes horizontaux sur écran tactile ; un glissement surtout vertical reste un défilement
+export const useSwipe = ({ onSwipeLeft, onSwipeRight }: SwipeHandlers) => {
+    const start = useRef<{ x: number; y: number } | null>(null);
+
+    const onTouchStart = (event: React.TouchEvent) => {
+        const touch = event.touches[0];
+        start.current = { x: touch.clientX, y: touch.clientY };
+    };
+
+    const onTouchEnd = (event: React.TouchEvent) => {
+        if (!start.current) return;
+        const touch = event.changedTouches[0];
+        const deltaX = touch.clientX - start.current.x;
+        const deltaY = touch.clientY - start.current.y;
+        start.current = null;
+        if (Math.abs(deltaX) < MIN_SWIPE_DISTANCE || Math.abs(deltaX) < Math.abs(deltaY)) return;
+        if (deltaX < 0) {
+            onSwipeLeft?.();
+        } else {
+            onSwipeRight?.();
+        }
+    };
+
+    return { onTouchStart, onTouchEnd };
+};
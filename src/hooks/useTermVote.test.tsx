@@ -0,0 +1,42 @@
+import { act, renderHook, waitFor } from '@testing-library/react';
+import { useTermVote } from './useTermVote';
+import { upvoteTerm } from '../services/termService';
+import { loadVotes } from '../services/votesLoader';
+import { clearQueryCache } from '../services/queryCache';
+import { buildTerm } from '../testing/termFixtures';
+
+jest.mock('../services/termService', () => ({
+    upvoteTerm: jest.fn(),
+    downvoteTerm: jest.fn(),
+}));
+
+jest.mock('../services/votesLoader', () => ({
+    loadVotes: jest.fn(),
+}));
+
+const user = { _id: 'u1', username: 'alice', token: 'token', role: 'user' };
+
+describe('useTermVote', () => {
+    beforeEach(() => {
+        clearQueryCache();
+    });
+
+    it('keeps the new vote when the server answers without counts', async () => {
+        (loadVotes as jest.Mock)
+            .mockResolvedValueOnce({ ok: true, data: { upvotes: 0, downvotes: 0 } })
+            .mockResolvedValue({ ok: true, data: { upvotes: 1, downvotes: 0 } });
+        (upvoteTerm as jest.Mock).mockResolvedValue({ ok: true, data: { message: 'Upvoted' } });
+
+        const { result } = renderHook(() => useTermVote(buildTerm('t1'), user));
+        await waitFor(() => expect(loadVotes).toHaveBeenCalledTimes(1));
+
+        await act(async () => {
+            await result.current.upvote();
+        });
+
+        // Les compteurs sont rechargés, le vote de l'utilisateur reste celui qu'il vient d'envoyer
+        await waitFor(() => expect(loadVotes).toHaveBeenCalledTimes(2));
+        await waitFor(() => expect(result.current.counts).toEqual({ upvotes: 1, downvotes: 0 }));
+        expect(result.current.voteState).toBe('up');
+    });
+});
@@ -0,0 +1,68 @@
+import { useCallback, useState } from 'react';
+import { downvoteTerm, upvoteTerm } from '../services/termService';
+import { loadVotes } from '../services/votesLoader';
+import { queryKeys } from '../services/queryKeys';
+import { getQueryData, invalidateQueries, setQueryData } from '../services/queryCache';
+import { notifyError } from '../services/notificationService';
+import { useQuery } from './useQuery';
+import { Term, VoteCounts, VoteState } from '../models/termModel';
+import { User } from '../models/userModel';
+import { applyVoteTransition, getUserVote, nextVoteState, VoteAction } from '../utils/vote';
+
+const VOTES_STALE_TIME = 30 * 1000;
+const EMPTY_VOTES: VoteCounts = { upvotes: 0, downvotes: 0 };
+
+// Compteurs et vote de l'utilisateur vivent dans le cache de requêtes :
+// toutes les vues d'un même terme (liste, profil, détail) restent synchronisées.
+export const useTermVote = (term: Term, user: User | null) => {
+    const countsKey = queryKeys.termVotes(term._id);
+    const stateKey = user ? queryKeys.userVote(term._id, user._id) : null;
+    const [pending, setPending] = useState<boolean>(false);
+
+    const { data: counts } = useQuery(countsKey, () => loadVotes(term._id), VOTES_STALE_TIME);
+    const { data: voteState } = useQuery<VoteState>(
+        stateKey,
+        async () => ({ ok: true, data: user ? getUserVote(term, user._id) : 'none' }),
+        Infinity
+    );
+
+    const vote = useCallback(async (action: VoteAction) => {
+        if (!user || !stateKey || pending) {
+            return;
+        }
+        const previousState = getQueryData<VoteState>(stateKey) ?? getUserVote(term, user._id);
+        const previousCounts = getQueryData<VoteCounts>(countsKey) ?? EMPTY_VOTES;
+        const nextState = nextVoteState(previousState, action);
+
+        setQueryData(stateKey, nextState);
+        setQueryData(countsKey, applyVoteTransition(previousCounts, previousState, nextState));
+        setPending(true);
+
+        const result = action === 'up' ? await upvoteTerm(term._id) : await downvoteTerm(term._id);
+        setPending(false);
+
+        if (!result.ok) {
+            setQueryData(stateKey, previousState);
+            setQueryData(countsKey, previousCounts);
+            notifyError(`Your vote on "${term.term}" could not be saved.`, {
+                action: { label: 'Retry', onClick: () => vote(action) },
+            });
+            return;
+        }
+
+        const { upvotes, downvotes } = result.data;
+        if (upvotes !== undefined && downvotes !== undefined) {
+            setQueryData(countsKey, { upvotes, downvotes });
+        } else {
+            invalidateQueries(countsKey);
+        }
+    }, [term, user, stateKey, countsKey, pending]);
+
+    return {
+        voteState: voteState ?? 'none',
+        counts: counts ?? EMPTY_VOTES,
+        pending,
+        upvote: () => vote('up'),
+        downvote: () => vote('down'),
+    };
+};
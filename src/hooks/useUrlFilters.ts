@@ -0,0 +1,22 @@
+import { useCallback, useMemo } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Filters } from '../models/filtersModel';
+import { parseFilters, serializeFilters } from '../utils/filters';
+
+// Les filtres vivent dans l'URL : une recherche peut être partagée,
+// mise en favori et rejouée avec les boutons précédent/suivant du navigateur.
+export const useUrlFilters = () => {
+    const [searchParams, setSearchParams] = useSearchParams();
+    const filters = useMemo(() => parseFilters(searchParams), [searchParams]);
+
+    const updateFilters = useCallback((changes: Partial<Filters>, options?: { replace?: boolean }) => {
+        setSearchParams((current) => {
+            const previous = parseFilters(current);
+            // Changer de critère ramène à la première page
+            const page = 'page' in changes ? changes.page : undefined;
+            return serializeFilters({ ...previous, ...changes, page });
+        }, options);
+    }, [setSearchParams]);
+
+    return { filters, updateFilters };
+};
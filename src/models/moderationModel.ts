@@ -0,0 +1,14 @@
+export type ModerationStatus = "pending" | "approved" | "rejected" | "all";
+
+// Ancienneté minimale de la soumission
+export type ModerationAge = "any" | "day" | "week" | "month";
+
+export type ModerationSort = "oldest" | "newest" | "term" | "language";
+
+export interface ModerationFilters {
+  status: ModerationStatus;
+  language?: string;
+  submitter?: string;
+  age: ModerationAge;
+  sort: ModerationSort;
+}
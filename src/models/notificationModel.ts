@@ -0,0 +1,15 @@
+export type NotificationType = "success" | "info" | "warning" | "error";
+
+export interface NotificationAction {
+  label: string;
+  onClick: () => void;
+}
+
+export interface Notification {
+  id: string;
+  type: NotificationType;
+  message: string;
+  title?: string;
+  action?: NotificationAction;
+  duration?: number; // en ms, 0 pour ne jamais fermer automatiquement
+}
@@ -0,0 +1,47 @@
+import { Flashcard } from "./termModel";
+
+export type QuizMode = "flashcards" | "multipleChoice" | "typed";
+
+// "reverse" : on montre la traduction et on attend le terme
+export type QuizDirection = "forward" | "reverse";
+
+// "missed" et "due" viennent de l'historique local, les autres sont tirés par le serveur
+export type QuizSource = "all" | "bookmarks" | "contributions" | "missed" | "due";
+
+export interface QuizScope {
+  category?: string;
+  theme?: string;
+  language?: string;
+}
+
+export interface QuizSettings extends QuizScope {
+  numberOfQuestions: number;
+  source: QuizSource;
+  mode: QuizMode;
+  direction: QuizDirection;
+}
+
+export interface QuizPreset {
+  id: string;
+  name: string;
+  settings: QuizSettings;
+}
+
+export interface QuizAnswer {
+  card: Flashcard;
+  given: string;
+  correct: boolean;
+}
+
+export interface QuizSession {
+  id: string;
+  settings: QuizSettings;
+  flashcardIds: string[];
+  currentIndex: number;
+  isFlipped: boolean;
+  answers: QuizAnswer[];
+  // Horodatages en millisecondes
+  startedAt: number;
+  updatedAt: number;
+  finishedAt?: number;
+}
@@ -0,0 +1,17 @@
+export type ReviewGrade = "again" | "hard" | "good" | "easy";
+
+export interface ReviewState {
+  cardId: string;
+  repetitions: number;
+  // En jours
+  interval: number;
+  easeFactor: number;
+  dueAt: string;
+  lastReviewedAt?: string;
+}
+
+export interface ReviewLogEntry {
+  cardId: string;
+  grade: ReviewGrade;
+  reviewedAt: string;
+}
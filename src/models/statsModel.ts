@@ -0,0 +1,10 @@
+export interface Stats {
+  userCount: number;
+  termCount: number;
+  approvedTermCount: number;
+  rejectedTermCount: number;
+  pendingTermCount: number;
+  bannedUserCount: number;
+  adminCount?: number;
+  moderatorCount?: number;
+}
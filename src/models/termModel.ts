@@ -13,8 +13,80 @@ export interface Term {
   status: string;
   isApproved: boolean;
   bookmarkedBy: string[];
-  comments?: Array<{ author: string; text: string; createdAt: Date }>;
+  comments?: Array<{ author: string; text: string; createdAt: string }>;
   upvotedBy: string[];
   downvotedBy: string[];
   userVote?: "upvote" | "downvote" | null;
+  // Auteur de la soumission, renseigné pour la modération
+  author?: string;
+  createdAt?: string;
+  rejectionReason?: string;
+}
+
+export interface TermInput {
+  term: string;
+  translation: string;
+  definition: string;
+  grammaticalCategory: string;
+  theme: string;
+  language: string;
+}
+
+export interface ApproveTermInput {
+  grammaticalCategory: string;
+  theme: string;
+  language: string;
+  languageCode: string;
+}
+
+export interface PaginatedTerms {
+  terms: Term[];
+  totalTerms: number;
+  currentPage?: number;
+  totalPages?: number;
+}
+
+export interface BookmarksPage {
+  bookmarks: Term[];
+  currentPage: number;
+  totalPages: number;
+}
+
+export interface VoteCounts {
+  upvotes: number;
+  downvotes: number;
+}
+
+export type VoteState = "none" | "up" | "down";
+
+// Le serveur peut renvoyer les compteurs à jour avec la confirmation du vote
+export interface VoteResponse extends Partial<VoteCounts> {
+  message: string;
+}
+
+export interface Flashcard {
+  _id: string;
+  term: string;
+  translation: string;
+}
+
+// Contenu d'un terme à un instant donné ; la taxonomie est désignée par son nom
+export interface TermSnapshot {
+  term: string;
+  translation: string;
+  definition: string;
+  grammaticalCategory: string;
+  theme: string;
+  language: string;
+}
+
+export type RevisionStatus = "approved" | "pending" | "rejected";
+
+export interface TermRevision {
+  _id: string;
+  termId: string;
+  author: string;
+  createdAt: string;
+  status: RevisionStatus;
+  snapshot: TermSnapshot;
 }
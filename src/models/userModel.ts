@@ -4,8 +4,17 @@ export interface User {
   _id: string;
   username: string;
   token: string;
+  refreshToken?: string;
   role: string;
   isBanned?: boolean;
   bookmarkedTerms?: Term[];
 }
 
+
+export interface UserProfile {
+  _id: string;
+  username: string;
+  role: string;
+  email?: string;
+  isBanned?: boolean;
+}
@@ -0,0 +1,68 @@
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import api from './api';
+import { expireSession, getCurrentUser, isTokenExpired, refreshSession } from './authService';
+
+jest.mock('./authService', () => ({
+    expireSession: jest.fn(),
+    getCurrentUser: jest.fn(),
+    isTokenExpired: jest.fn(),
+    refreshSession: jest.fn(),
+}));
+
+// Le serveur simulé n'accepte que le token renouvelé
+const sentTokens: string[] = [];
+const adapter = async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    sentTokens.push(String(config.headers.get('Authorization')));
+    const response = { data: { url: config.url }, status: 200, statusText: 'OK', headers: {}, config };
+    if (config.headers.get('Authorization') !== 'Bearer new-token') {
+        throw new AxiosError('Unauthorized', 'ERR_BAD_REQUEST', config, null, { ...response, status: 401, statusText: 'Unauthorized' });
+    }
+    return response;
+};
+
+describe('api refresh queue', () => {
+    const originalLocation = window.location;
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        sentTokens.length = 0;
+        api.defaults.adapter = adapter;
+        (getCurrentUser as jest.Mock).mockReturnValue({ _id: '1', username: 'alice', token: 'old-token', refreshToken: 'refresh', role: 'user' });
+        (isTokenExpired as jest.Mock).mockReturnValue(false);
+        Object.defineProperty(window, 'location', {
+            value: { pathname: '/terms/quiz', search: '?session=42', href: '' },
+            writable: true,
+        });
+    });
+
+    afterAll(() => {
+        Object.defineProperty(window, 'location', { value: originalLocation, writable: true });
+    });
+
+    it('refreshes the token once for concurrent 401s and replays every request', async () => {
+        // Comme le vrai refreshSession, la session stockée prend le nouveau token
+        (refreshSession as jest.Mock).mockImplementation(() => new Promise(resolve => setTimeout(() => {
+            const user = { ...getCurrentUser(), token: 'new-token' };
+            (getCurrentUser as jest.Mock).mockReturnValue(user);
+            resolve(user);
+        }, 10)));
+
+        const responses = await Promise.all([api.get('/terms'), api.get('/users/me'), api.get('/quiz-sessions')]);
+
+        expect(refreshSession).toHaveBeenCalledTimes(1);
+        expect(responses.map(response => response.data.url)).toEqual(['/terms', '/users/me', '/quiz-sessions']);
+        expect(sentTokens.filter(token => token === 'Bearer old-token')).toHaveLength(3);
+        expect(sentTokens.filter(token => token === 'Bearer new-token')).toHaveLength(3);
+        expect(expireSession).not.toHaveBeenCalled();
+    });
+
+    it('expires the session and redirects to login when the refresh fails', async () => {
+        (refreshSession as jest.Mock).mockRejectedValue(new Error('Refresh token revoked'));
+
+        await expect(api.get('/terms')).rejects.toThrow('Refresh token revoked');
+
+        expect(refreshSession).toHaveBeenCalledTimes(1);
+        expect(expireSession).toHaveBeenCalledTimes(1);
+        expect(window.location.href).toBe('/login?redirect=%2Fterms%2Fquiz%3Fsession%3D42');
+    });
+});
@@ -1,11 +1,16 @@
 import axios, {
   AxiosError,
-  AxiosRequestConfig,
   InternalAxiosRequestConfig,
   AxiosHeaders,
 } from "axios";
-import { isTokenExpired, logout } from "./authService";
+import {
+  expireSession,
+  getCurrentUser,
+  isTokenExpired,
+  refreshSession,
+} from "./authService";
 import { ErrorResponse } from "../utils/types";
+import { buildLoginPath } from "../utils/redirect";
 
 
 const apiBaseURL = process.env.REACT_APP_PROD_API_URL;
@@ -23,28 +28,58 @@ export const publicApi = axios.create({
   baseURL: apiBaseURL,
 });
 
-const handleError = (error: AxiosError<ErrorResponse>, navigate: Function) => {
-  if (error.response && error.response.status === 401) {
-    logout();
-    navigate("/login");
+interface RetryableRequestConfig extends InternalAxiosRequestConfig {
+  _retry?: boolean;
+}
+
+let refreshPromise: Promise<string> | null = null;
+
+const redirectToLogin = () => {
+  const { pathname, search } = window.location;
+  if (pathname === "/login") {
+    return;
   }
-  return Promise.reject(error);
+  // On garde la route courante pour y revenir après reconnexion
+  window.location.href = buildLoginPath(pathname, search);
+};
+
+const handleSessionExpired = () => {
+  expireSession();
+  redirectToLogin();
+};
+
+// Un seul refresh à la fois : les requêtes en attente partagent la même promesse
+// et sont rejouées avec le nouveau token une fois celle-ci résolue.
+const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = refreshSession()
+      .then((user) => user.token)
+      .catch((error) => {
+        handleSessionExpired();
+        throw error;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+};
+
+const setAuthorization = (config: InternalAxiosRequestConfig, token: string) => {
+  if (!config.headers) {
+    config.headers = new AxiosHeaders();
+  }
+  config.headers.set("Authorization", `Bearer ${token}`);
 };
 
 api.interceptors.request.use(
-  (config: InternalAxiosRequestConfig) => {
-    const userStr = localStorage.getItem("user");
-    if (userStr) {
-      const user = JSON.parse(userStr);
-      if (isTokenExpired(user.token)) {
-        logout();
-        window.location.href = "/login";
-      } else {
-        if (!config.headers) {
-          config.headers = new AxiosHeaders();
-        }
-        config.headers.set("Authorization", `Bearer ${user.token}`);
-      }
+  async (config: InternalAxiosRequestConfig) => {
+    const user = getCurrentUser();
+    if (user) {
+      const token = isTokenExpired(user.token)
+        ? await refreshAccessToken()
+        : user.token;
+      setAuthorization(config, token);
     }
     return config;
   },
@@ -55,10 +90,20 @@ api.interceptors.request.use(
 
 api.interceptors.response.use(
   (response) => response,
-  (error: AxiosError<ErrorResponse>) => {
-    return handleError(error, (path: string) => {
-      window.location.href = path;
-    });
+  async (error: AxiosError<ErrorResponse>) => {
+    const originalRequest = error.config as RetryableRequestConfig | undefined;
+
+    if (error.response?.status === 401) {
+      if (originalRequest && !originalRequest._retry && getCurrentUser()) {
+        originalRequest._retry = true;
+        const token = await refreshAccessToken();
+        setAuthorization(originalRequest, token);
+        return api(originalRequest);
+      }
+      handleSessionExpired();
+    }
+
+    return Promise.reject(error);
   }
 );
 
@@ -0,0 +1,41 @@
+// src/services/apiClient.ts
+import { AxiosResponse } from "axios";
+import { handleAuthError } from "../utils/handleAuthError";
+import { normalizeError } from "../utils/normalizeError";
+import { Schema } from "../utils/schema";
+import { AppError } from "../utils/types";
+
+export type ApiResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: AppError };
+
+// La validation des réponses ne sert qu'à repérer les écarts de contrat en développement
+const shouldValidate = process.env.NODE_ENV === "development";
+
+export interface CallApiOptions {
+  // L'appelant affiche lui-même l'erreur (ex. vote annulé avec son propre message)
+  silent?: boolean;
+}
+
+export const callApi = async <T>(
+  request: () => Promise<AxiosResponse>,
+  schema: Schema<T>,
+  options: CallApiOptions = {}
+): Promise<ApiResult<T>> => {
+  try {
+    const response = await request();
+    if (shouldValidate) {
+      const issues = schema.validate(response.data);
+      if (issues.length > 0) {
+        const { method, url } = response.config ?? {};
+        console.warn(`Unexpected response for ${method?.toUpperCase()} ${url}`, issues);
+      }
+    }
+    return { ok: true, data: response.data as T };
+  } catch (error) {
+    if (!options.silent) {
+      handleAuthError(error);
+    }
+    return { ok: false, error: normalizeError(error) };
+  }
+};
@@ -0,0 +1,18 @@
+import { expireSession, logout } from './authService';
+import { getQueryData, setQueryData } from './queryCache';
+import { queryKeys } from './queryKeys';
+
+describe('authService session end', () => {
+    it.each([
+        ['logout', logout],
+        ['expireSession', expireSession],
+    ])('%s drops the previous user data from the query cache', (_, endSession) => {
+        localStorage.setItem('user', JSON.stringify({ _id: 'u1' }));
+        setQueryData(queryKeys.myTerms('u1', 'rejected'), [{ _id: 't1', rejectionReason: 'Duplicate.' }]);
+
+        endSession();
+
+        expect(localStorage.getItem('user')).toBeNull();
+        expect(getQueryData(queryKeys.myTerms('u1', 'rejected'))).toBeUndefined();
+    });
+});
@@ -1,6 +1,8 @@
 // src/services/authService.ts
-import api from "./api";
+import api, { publicApi } from "./api";
 import {jwtDecode} from "jwt-decode";
+import { User } from "../models/userModel";
+import { clearQueryCache } from "./queryCache";
 
 interface DecodedToken {
   id: string;
@@ -9,6 +11,29 @@ interface DecodedToken {
   exp: number;
 }
 
+type SessionListener = (user: User | null) => void;
+
+const sessionListeners = new Set<SessionListener>();
+
+// Permet à l'AuthContext d'être prévenu quand la session change hors de React
+// (token rafraîchi par l'intercepteur, refresh refusé...)
+export const onSessionChange = (listener: SessionListener) => {
+  sessionListeners.add(listener);
+  return () => {
+    sessionListeners.delete(listener);
+  };
+};
+
+const notifySessionChange = (user: User | null) => {
+  sessionListeners.forEach((listener) => listener(user));
+};
+
+const buildUser = (token: string, refreshToken?: string): User => {
+  const decodedToken = jwtDecode<DecodedToken>(token);
+  const { id, username, role } = decodedToken;
+  return { token, refreshToken, _id: id, username, role };
+};
+
 export const register = (userData: {
   username: string;
   password: string;
@@ -20,10 +45,7 @@ export const register = (userData: {
 export const login = (userData: { username: string; password: string }) => {
   return api.post("/auth/login", userData).then((response) => {
     if (response.data.token) {
-      const token = response.data.token;
-      const decodedToken = jwtDecode<DecodedToken>(token);
-      const { id, username, role } = decodedToken;
-      const user = { token, _id: id, username, role };
+      const user = buildUser(response.data.token, response.data.refreshToken);
       localStorage.setItem("user", JSON.stringify(user));
       return user; // Retourner l'objet utilisateur complet
     }
@@ -31,8 +53,34 @@ export const login = (userData: { username: string; password: string }) => {
   });
 };
 
+export const refreshSession = async (): Promise<User> => {
+  const currentUser = getCurrentUser();
+  if (!currentUser?.refreshToken) {
+    throw new Error("No refresh token available");
+  }
+
+  const response = await publicApi.post("/auth/refresh", {
+    refreshToken: currentUser.refreshToken,
+  });
+  // Le serveur peut faire tourner le refresh token, sinon on garde l'ancien
+  const user = buildUser(
+    response.data.token,
+    response.data.refreshToken || currentUser.refreshToken
+  );
+  localStorage.setItem("user", JSON.stringify(user));
+  notifySessionChange(user);
+  return user;
+};
+
+// Le cache de requêtes contient des données propres à l'utilisateur (profil, votes, soumissions)
 export const logout = () => {
   localStorage.removeItem("user");
+  clearQueryCache();
+};
+
+export const expireSession = () => {
+  logout();
+  notifySessionChange(null);
 };
 
 export const getCurrentUser = () => {
@@ -1,33 +1,31 @@
 // src/services/categoryService.ts
-import { AxiosError } from "axios";
-import { handleAuthError } from "../utils/handleAuthError";
 import {api, publicApi} from "./api";
-import { ErrorResponse } from "../utils/types";
+import { callApi } from "./apiClient";
+import { invalidateQueries } from "./queryCache";
+import { queryKeys } from "./queryKeys";
+import { categorySchema } from "./schemas";
+import { array } from "../utils/schema";
 
 export const getAllCategories = async () => {
-  try {
-    const response = await api.get("/categories");
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  return callApi(() => api.get("/categories"), array(categorySchema));
 };
 
 export const getCategories = async () => {
-  try {
-    const response = await publicApi.get("/categories/approved");
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  return callApi(() => publicApi.get("/categories/approved"), array(categorySchema));
 };
 
 export const addCategory = async (category: string) => {
-  const response = await api.post("/categories", { category });
-  return response.data;
+  const result = await callApi(() => api.post("/categories", { category }), categorySchema);
+  if (result.ok) {
+    invalidateQueries(queryKeys.categories);
+  }
+  return result;
 };
 
 export const approveCategory = async (categoryId: string) => {
-  return await api.post(`/categories/${categoryId}/approve`);
+  const result = await callApi(() => api.post(`/categories/${categoryId}/approve`), categorySchema);
+  if (result.ok) {
+    invalidateQueries(queryKeys.categories);
+  }
+  return result;
 };
-
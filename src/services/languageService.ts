@@ -1,40 +1,34 @@
 // src/services/languageService.ts
 import { publicApi, api } from "./api";
-import { AxiosError } from "axios";
-import { handleAuthError } from "../utils/handleAuthError";
-import { ErrorResponse } from "../utils/types";
+import { callApi } from "./apiClient";
+import { invalidateQueries } from "./queryCache";
+import { queryKeys } from "./queryKeys";
+import { languageSchema } from "./schemas";
+import { array } from "../utils/schema";
 
 export const getAllLanguages = async () => {
-  try {
-    const response = await api.get("/languages");
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  return callApi(() => api.get("/languages"), array(languageSchema));
 };
 
 export const getLanguages = async () => {
-  try {
-    const response = await publicApi.get("/languages/approved");
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  return callApi(() => publicApi.get("/languages/approved"), array(languageSchema));
 };
 
 export const addLanguage = async (
   name: string,
   code: string,
 ) => {
-  try {
-    const response = await api.post("/languages", { name, code });
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
+  const result = await callApi(() => api.post("/languages", { name, code }), languageSchema);
+  if (result.ok) {
+    invalidateQueries(queryKeys.languages);
   }
+  return result;
 };
 
 export const approveLanguage = async (languageId: string, code: string) => {
-  const response = await api.post(`/languages/${languageId}/approve`, { code });
-  return response.data;
+  const result = await callApi(() => api.post(`/languages/${languageId}/approve`, { code }), languageSchema);
+  if (result.ok) {
+    invalidateQueries(queryKeys.languages);
+  }
+  return result;
 };
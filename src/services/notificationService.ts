@@ -0,0 +1,35 @@
+// src/services/notificationService.ts
+import { Notification, NotificationType } from "../models/notificationModel";
+
+export type NotificationInput = Omit<Notification, "id">;
+export type NotificationOptions = Omit<NotificationInput, "type" | "message">;
+
+type NotificationListener = (notification: Notification) => void;
+
+const listeners = new Set<NotificationListener>();
+let nextId = 0;
+
+// Canal utilisé hors de React (services, intercepteurs) ; le NotificationProvider s'y abonne
+export const onNotification = (listener: NotificationListener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const notify = (notification: NotificationInput) => {
+  nextId += 1;
+  const id = `notification-${nextId}`;
+  listeners.forEach((listener) => listener({ id, ...notification }));
+  return id;
+};
+
+const notifyType = (type: NotificationType) => (
+  message: string,
+  options?: NotificationOptions
+) => notify({ type, message, ...options });
+
+export const notifySuccess = notifyType("success");
+export const notifyInfo = notifyType("info");
+export const notifyWarning = notifyType("warning");
+export const notifyError = notifyType("error");
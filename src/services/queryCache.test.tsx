@@ -0,0 +1,53 @@
+import { cachedQuery, clearQueryCache, invalidateQueries, subscribeToQuery } from './queryCache';
+
+const okResult = <T,>(data: T) => ({ ok: true as const, data });
+
+describe('queryCache', () => {
+    beforeEach(() => {
+        clearQueryCache();
+    });
+
+    it('shares a single request between concurrent callers', async () => {
+        const fetcher = jest.fn().mockResolvedValue(okResult(['Noun']));
+
+        const [first, second] = await Promise.all([
+            cachedQuery('categories:approved', fetcher),
+            cachedQuery('categories:approved', fetcher),
+        ]);
+
+        expect(fetcher).toHaveBeenCalledTimes(1);
+        expect(first).toEqual(okResult(['Noun']));
+        expect(second).toEqual(okResult(['Noun']));
+    });
+
+    it('returns stale data immediately and revalidates in the background', async () => {
+        const fetcher = jest.fn()
+            .mockResolvedValueOnce(okResult(['Noun']))
+            .mockResolvedValueOnce(okResult(['Noun', 'Verb']));
+        await cachedQuery('categories:approved', fetcher);
+
+        const listener = jest.fn();
+        subscribeToQuery('categories:approved', listener);
+        const result = await cachedQuery('categories:approved', fetcher, 0);
+        await Promise.resolve();
+
+        expect(result).toEqual(okResult(['Noun']));
+        expect(fetcher).toHaveBeenCalledTimes(2);
+        expect(listener).toHaveBeenCalled();
+        expect(await cachedQuery('categories:approved', fetcher)).toEqual(okResult(['Noun', 'Verb']));
+    });
+
+    it('refetches subscribed queries matching an invalidated prefix', async () => {
+        const approved = jest.fn().mockResolvedValue(okResult(['Noun']));
+        const themes = jest.fn().mockResolvedValue(okResult(['Sport']));
+        await cachedQuery('categories:approved', approved);
+        await cachedQuery('themes:approved', themes);
+        subscribeToQuery('categories:approved', jest.fn());
+        subscribeToQuery('themes:approved', jest.fn());
+
+        invalidateQueries('categories');
+
+        expect(approved).toHaveBeenCalledTimes(2);
+        expect(themes).toHaveBeenCalledTimes(1);
+    });
+});
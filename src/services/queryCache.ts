@@ -0,0 +1,109 @@
+// src/services/queryCache.ts
+import { ApiResult } from "./apiClient";
+
+export const DEFAULT_STALE_TIME = 5 * 60 * 1000;
+
+type Fetcher<T> = () => Promise<ApiResult<T>>;
+
+interface CacheEntry<T> {
+  data?: T;
+  updatedAt: number;
+  promise?: Promise<ApiResult<T>>;
+  fetcher?: Fetcher<T>;
+}
+
+const cache = new Map<string, CacheEntry<unknown>>();
+const listeners = new Map<string, Set<() => void>>();
+
+const notifyListeners = (key: string) => {
+  listeners.get(key)?.forEach((listener) => listener());
+};
+
+const getEntry = <T>(key: string): CacheEntry<T> => {
+  let entry = cache.get(key) as CacheEntry<T> | undefined;
+  if (!entry) {
+    entry = { updatedAt: 0 };
+    cache.set(key, entry as CacheEntry<unknown>);
+  }
+  return entry;
+};
+
+// Une seule requête en vol par clé : les appels concurrents partagent la même promesse
+const fetchEntry = <T>(key: string, fetcher: Fetcher<T>): Promise<ApiResult<T>> => {
+  const entry = getEntry<T>(key);
+  entry.fetcher = fetcher;
+  if (entry.promise) {
+    return entry.promise;
+  }
+
+  entry.promise = fetcher().then((result) => {
+    entry.promise = undefined;
+    if (result.ok) {
+      entry.data = result.data;
+      entry.updatedAt = Date.now();
+      notifyListeners(key);
+    }
+    return result;
+  });
+  return entry.promise;
+};
+
+// Stale-while-revalidate : une donnée périmée est renvoyée tout de suite
+// pendant qu'une nouvelle version est chargée en arrière-plan.
+export const cachedQuery = <T>(
+  key: string,
+  fetcher: Fetcher<T>,
+  staleTime: number = DEFAULT_STALE_TIME
+): Promise<ApiResult<T>> => {
+  const entry = getEntry<T>(key);
+  if (entry.data === undefined) {
+    return fetchEntry(key, fetcher);
+  }
+  if (Date.now() - entry.updatedAt >= staleTime) {
+    fetchEntry(key, fetcher);
+  }
+  return Promise.resolve({ ok: true, data: entry.data });
+};
+
+export const getQueryData = <T>(key: string): T | undefined => {
+  return cache.get(key)?.data as T | undefined;
+};
+
+export const setQueryData = <T>(key: string, updater: T | ((previous: T | undefined) => T)) => {
+  const entry = getEntry<T>(key);
+  entry.data = typeof updater === "function"
+    ? (updater as (previous: T | undefined) => T)(entry.data)
+    : updater;
+  entry.updatedAt = Date.now();
+  notifyListeners(key);
+};
+
+const matchesKey = (key: string, prefix: string) =>
+  key === prefix || key.startsWith(`${prefix}:`);
+
+// Marque les entrées comme périmées ; celles qui sont affichées sont rechargées tout de suite
+export const invalidateQueries = (...prefixes: string[]) => {
+  cache.forEach((entry, key) => {
+    if (!prefixes.some((prefix) => matchesKey(key, prefix))) {
+      return;
+    }
+    entry.updatedAt = 0;
+    if (listeners.get(key)?.size && entry.fetcher) {
+      fetchEntry(key, entry.fetcher);
+    }
+  });
+};
+
+export const subscribeToQuery = (key: string, listener: () => void) => {
+  if (!listeners.has(key)) {
+    listeners.set(key, new Set());
+  }
+  listeners.get(key)!.add(listener);
+  return () => {
+    listeners.get(key)?.delete(listener);
+  };
+};
+
+export const clearQueryCache = () => {
+  cache.clear();
+};
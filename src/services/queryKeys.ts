@@ -0,0 +1,24 @@
+// src/services/queryKeys.ts
+export const queryKeys = {
+  categories: "categories",
+  approvedCategories: "categories:approved",
+  allCategories: "categories:all",
+  themes: "themes",
+  approvedThemes: "themes:approved",
+  allThemes: "themes:all",
+  languages: "languages",
+  approvedLanguages: "languages:approved",
+  allLanguages: "languages:all",
+  terms: "terms",
+  term: (id: string) => `terms:${id}`,
+  termRevisions: (id: string) => `terms:${id}:revisions`,
+  myTerms: (userId: string, status: string = "") => `terms:mine:${userId}:${status}`,
+  moderationQueue: (status: string) => `terms:moderation:${status}`,
+  editProposals: "revisions:pending",
+  searchCandidates: (category: string = "", theme: string = "", language: string = "") =>
+    `terms:search:${category}|${theme}|${language}`,
+  votes: "votes",
+  termVotes: (id: string) => `votes:${id}`,
+  // Hors de "votes:<id>" : invalider les compteurs ne doit pas écraser le vote optimiste
+  userVote: (termId: string, userId: string) => `voteState:${termId}:${userId}`,
+};
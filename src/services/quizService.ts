@@ -0,0 +1,88 @@
+// src/services/quizService.ts
+import { ApiResult } from "./apiClient";
+import { cachedQuery } from "./queryCache";
+import { queryKeys } from "./queryKeys";
+import { getSearchCandidates } from "./searchService";
+import { getDueCardIds, getMissedCardIds } from "./reviewService";
+import { getQuiz, getTermById } from "./termService";
+import { Flashcard } from "../models/termModel";
+import { QuizDirection, QuizScope, QuizSettings } from "../models/quizModel";
+import {
+  CHOICES_PER_QUESTION,
+  getExpectedAnswer,
+  hasQuizScope,
+  pickDistractors,
+  shuffle,
+} from "../utils/quiz";
+
+const getCachedTerm = (id: string) => cachedQuery(queryKeys.term(id), () => getTermById(id));
+
+// Les listes locales ne connaissent que les identifiants : on les confronte aux termes
+// du périmètre, déjà en cache pour la recherche, plutôt que de consulter chaque terme
+const filterByScope = async (ids: string[], scope: QuizScope): Promise<ApiResult<string[]>> => {
+  if (!hasQuizScope(scope)) {
+    return { ok: true, data: ids };
+  }
+  const candidates = await getSearchCandidates(scope);
+  if (!candidates.ok) {
+    return candidates;
+  }
+  const inScope = new Set(candidates.data.map((term) => term._id));
+  return { ok: true, data: ids.filter((id) => inScope.has(id)) };
+};
+
+export const getQuizCardIds = async (
+  settings: QuizSettings,
+  userId?: string
+): Promise<ApiResult<string[]>> => {
+  const { source, numberOfQuestions, category, theme, language } = settings;
+  const scope = { category, theme, language };
+
+  if (source === "due" || source === "missed") {
+    if (!userId) {
+      return { ok: true, data: [] };
+    }
+    const result = await filterByScope(
+      source === "due" ? getDueCardIds(userId) : getMissedCardIds(userId),
+      scope
+    );
+    // Toutes les cartes à réviser, les plus en retard d'abord ; un échantillon des ratées
+    return result.ok && source === "missed"
+      ? { ok: true, data: shuffle(result.data).slice(0, numberOfQuestions) }
+      : result;
+  }
+
+  return getQuiz(numberOfQuestions.toString(), {
+    ...scope,
+    source: source === "all" ? undefined : source,
+  });
+};
+
+// Les distracteurs viennent de la même langue et du même thème, puis de toute la langue si besoin
+export const getQuizChoices = async (
+  card: Flashcard,
+  direction: QuizDirection
+): Promise<ApiResult<string[]>> => {
+  const termResult = await getCachedTerm(card._id);
+  if (!termResult.ok) {
+    return termResult;
+  }
+  const { language, theme } = termResult.data;
+  const answer = getExpectedAnswer(card, direction);
+  const needed = CHOICES_PER_QUESTION - 1;
+  const scopes = [{ language: language?.name, theme: theme?.name }, { language: language?.name }];
+
+  let distractors: string[] = [];
+  for (const scope of scopes) {
+    const candidates = await getSearchCandidates(scope);
+    if (!candidates.ok) {
+      return candidates;
+    }
+    const values = candidates.data.map((term) => getExpectedAnswer(term, direction));
+    distractors = pickDistractors(answer, [...distractors, ...values], needed);
+    if (distractors.length >= needed) {
+      break;
+    }
+  }
+  return { ok: true, data: shuffle([answer, ...distractors]) };
+};
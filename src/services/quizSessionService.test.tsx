@@ -0,0 +1,46 @@
+import { createQuizSession, getLastUnfinishedSession, getQuizSession, saveQuizSession } from './quizSessionService';
+import { DEFAULT_QUIZ_SETTINGS } from '../utils/quiz';
+
+jest.mock('./api', () => ({
+    __esModule: true,
+    default: { get: jest.fn(), put: jest.fn() },
+}));
+
+const mockedApi = jest.requireMock('./api').default as { get: jest.Mock; put: jest.Mock };
+
+describe('quizSessionService', () => {
+    beforeEach(() => {
+        jest.useFakeTimers();
+        jest.clearAllMocks();
+        localStorage.clear();
+        mockedApi.put.mockResolvedValue({ data: {} });
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+    });
+
+    it('saves locally right away and batches server saves', () => {
+        const session = createQuizSession(DEFAULT_QUIZ_SETTINGS, ['a', 'b'], 1000);
+        saveQuizSession('user', { ...session, currentIndex: 1, updatedAt: 2000 });
+        saveQuizSession('user', { ...session, currentIndex: 1, isFlipped: true, updatedAt: 3000 });
+
+        expect(JSON.parse(localStorage.getItem('quizSessions:user') ?? '[]')).toHaveLength(1);
+        expect(mockedApi.put).not.toHaveBeenCalled();
+
+        jest.runAllTimers();
+        expect(mockedApi.put).toHaveBeenCalledTimes(1);
+        expect(mockedApi.put).toHaveBeenCalledWith(`/quiz-sessions/${session.id}`, expect.objectContaining({ isFlipped: true }));
+    });
+
+    it('prefers the most recent copy and falls back to local when the server fails', async () => {
+        const session = createQuizSession(DEFAULT_QUIZ_SETTINGS, ['a', 'b'], 1000);
+        saveQuizSession('user', { ...session, currentIndex: 1, updatedAt: 2000 });
+
+        mockedApi.get.mockResolvedValueOnce({ data: { ...session, currentIndex: 0, updatedAt: 1500 } });
+        expect((await getQuizSession('user', session.id))?.currentIndex).toBe(1);
+
+        mockedApi.get.mockRejectedValueOnce(new Error('offline'));
+        expect((await getLastUnfinishedSession('user'))?.id).toBe(session.id);
+    });
+});
@@ -0,0 +1,84 @@
+// src/services/quizSessionService.ts
+import api from "./api";
+import { callApi } from "./apiClient";
+import { quizSessionSchema } from "./schemas";
+import { array } from "../utils/schema";
+import { QuizSession, QuizSettings } from "../models/quizModel";
+
+const MAX_LOCAL_SESSIONS = 50;
+const REMOTE_SAVE_DELAY = 1000;
+
+// Copie locale : la reprise fonctionne même si le serveur est injoignable
+const storageKey = (userId: string) => `quizSessions:${userId}`;
+
+const loadLocalSessions = (userId: string): QuizSession[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(userId)) ?? "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveLocalSession = (userId: string, session: QuizSession) => {
+  const sessions = [session, ...loadLocalSessions(userId).filter((item) => item.id !== session.id)];
+  localStorage.setItem(storageKey(userId), JSON.stringify(sessions.slice(0, MAX_LOCAL_SESSIONS)));
+};
+
+// Pour une même session, la version la plus récente l'emporte (autre onglet, autre appareil)
+const mergeSessions = (...lists: QuizSession[][]) => {
+  const byId = new Map<string, QuizSession>();
+  lists.flat().forEach((session) => {
+    const known = byId.get(session.id);
+    if (!known || session.updatedAt > known.updatedAt) {
+      byId.set(session.id, session);
+    }
+  });
+  return Array.from(byId.values()).sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const createQuizSession = (
+  settings: QuizSettings,
+  flashcardIds: string[],
+  now: number = Date.now()
+): QuizSession => ({
+  id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+  settings,
+  flashcardIds,
+  currentIndex: 0,
+  isFlipped: false,
+  answers: [],
+  startedAt: now,
+  updatedAt: now,
+});
+
+const pendingRemoteSaves = new Map<string, ReturnType<typeof setTimeout>>();
+
+// Sauvegarde locale immédiate ; côté serveur, les changements rapprochés sont regroupés
+export const saveQuizSession = (userId: string, session: QuizSession) => {
+  saveLocalSession(userId, session);
+  clearTimeout(pendingRemoteSaves.get(session.id));
+  pendingRemoteSaves.set(
+    session.id,
+    setTimeout(() => {
+      pendingRemoteSaves.delete(session.id);
+      callApi(() => api.put(`/quiz-sessions/${session.id}`, session), quizSessionSchema, { silent: true });
+    }, session.finishedAt ? 0 : REMOTE_SAVE_DELAY)
+  );
+};
+
+export const getQuizSessions = async (userId: string) => {
+  const remote = await callApi(() => api.get("/quiz-sessions"), array(quizSessionSchema), { silent: true });
+  return mergeSessions(loadLocalSessions(userId), remote.ok ? remote.data : []);
+};
+
+export const getQuizSession = async (userId: string, id: string) => {
+  const remote = await callApi(() => api.get(`/quiz-sessions/${id}`), quizSessionSchema, { silent: true });
+  const local = loadLocalSessions(userId).filter((session) => session.id === id);
+  return mergeSessions(local, remote.ok ? [remote.data] : [])[0] ?? null;
+};
+
+export const getLastUnfinishedSession = async (userId: string) => {
+  const sessions = await getQuizSessions(userId);
+  return sessions.find((session) => !session.finishedAt && session.flashcardIds.length > 0) ?? null;
+};
@@ -0,0 +1,23 @@
+import { getMissedCardIds, getReviewLog, MAX_REVIEW_LOG_ENTRIES, recordReview } from './reviewService';
+
+describe('reviewService', () => {
+    beforeEach(() => {
+        localStorage.clear();
+    });
+
+    it('keeps only the most recent log entries', () => {
+        const log = Array.from({ length: MAX_REVIEW_LOG_ENTRIES }, (_, index) => ({
+            cardId: `card-${index}`,
+            grade: 'good',
+            reviewedAt: '2024-03-01T00:00:00.000Z',
+        }));
+        localStorage.setItem('reviews:u1', JSON.stringify({ states: {}, log }));
+
+        recordReview('u1', 'card-new', 'again', new Date('2024-03-02T00:00:00Z'));
+
+        const stored = getReviewLog('u1');
+        expect(stored).toHaveLength(MAX_REVIEW_LOG_ENTRIES);
+        expect(stored[0].cardId).toBe('card-1');
+        expect(getMissedCardIds('u1')).toEqual(['card-new']);
+    });
+});
@@ -0,0 +1,68 @@
+// src/services/reviewService.ts
+import { ReviewGrade, ReviewLogEntry, ReviewState } from "../models/reviewModel";
+import { createReviewState, isDue, scheduleReview } from "../utils/sm2";
+
+// Pas d'endpoint dédié : la progression est conservée dans le navigateur, par utilisateur
+interface ReviewData {
+  states: Record<string, ReviewState>;
+  log: ReviewLogEntry[];
+}
+
+// Seules les dernières réponses comptent pour les cartes ratées : le journal est borné
+// pour ne pas dépasser le quota du localStorage
+export const MAX_REVIEW_LOG_ENTRIES = 2000;
+
+const storageKey = (userId: string) => `reviews:${userId}`;
+
+const loadReviewData = (userId: string): ReviewData => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(userId)) ?? "null");
+    return {
+      states: stored?.states ?? {},
+      log: Array.isArray(stored?.log) ? stored.log : [],
+    };
+  } catch {
+    return { states: {}, log: [] };
+  }
+};
+
+const saveReviewData = (userId: string, data: ReviewData) => {
+  localStorage.setItem(
+    storageKey(userId),
+    JSON.stringify({ ...data, log: data.log.slice(-MAX_REVIEW_LOG_ENTRIES) })
+  );
+};
+
+export const getReviewStates = (userId: string) => loadReviewData(userId).states;
+
+export const getReviewLog = (userId: string) => loadReviewData(userId).log;
+
+export const getDueCardIds = (userId: string, now: Date = new Date()) => {
+  return Object.values(getReviewStates(userId))
+    .filter((state) => isDue(state, now))
+    .sort((a, b) => a.dueAt.localeCompare(b.dueAt))
+    .map((state) => state.cardId);
+};
+
+// Cartes dont la dernière réponse était fausse
+export const getMissedCardIds = (userId: string) => {
+  const lastGrades = new Map<string, ReviewGrade>();
+  getReviewLog(userId).forEach((entry) => lastGrades.set(entry.cardId, entry.grade));
+  return Array.from(lastGrades)
+    .filter(([, grade]) => grade === "again")
+    .map(([cardId]) => cardId);
+};
+
+export const recordReview = (
+  userId: string,
+  cardId: string,
+  grade: ReviewGrade,
+  now: Date = new Date()
+) => {
+  const data = loadReviewData(userId);
+  const state = scheduleReview(data.states[cardId] ?? createReviewState(cardId, now), grade, now);
+  data.states[cardId] = state;
+  data.log.push({ cardId, grade, reviewedAt: now.toISOString() });
+  saveReviewData(userId, data);
+  return state;
+};
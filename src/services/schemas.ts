@@ -0,0 +1,157 @@
+// src/services/schemas.ts
+import {
+  Schema,
+  array,
+  boolean,
+  literal,
+  number,
+  object,
+  optional,
+  record,
+  string,
+} from "../utils/schema";
+import { Category } from "../models/categoryModel";
+import { QuizSession } from "../models/quizModel";
+import { Theme } from "../models/themeModel";
+import { Language } from "../models/languageModel";
+import {
+  BookmarksPage,
+  Flashcard,
+  PaginatedTerms,
+  Term,
+  TermRevision,
+  VoteCounts,
+  VoteResponse,
+} from "../models/termModel";
+import { Stats } from "../models/statsModel";
+import { UserProfile } from "../models/userModel";
+import { MessageResponse } from "../utils/types";
+
+export const messageSchema: Schema<MessageResponse> = object({
+  message: string(),
+});
+
+export const categorySchema: Schema<Category> = object({
+  _id: string(),
+  name: string(),
+  isApproved: boolean(),
+});
+
+export const themeSchema: Schema<Theme> = object({
+  _id: string(),
+  name: string(),
+  isApproved: boolean(),
+});
+
+export const languageSchema: Schema<Language> = object({
+  _id: string(),
+  name: string(),
+  code: string(),
+  isApproved: boolean(),
+});
+
+export const termSchema: Schema<Term> = object({
+  _id: string(),
+  term: string(),
+  translation: string(),
+  definition: string(),
+  grammaticalCategory: categorySchema,
+  theme: themeSchema,
+  language: languageSchema,
+  status: string(),
+  isApproved: boolean(),
+  bookmarkedBy: array(string()),
+  upvotedBy: array(string()),
+  downvotedBy: array(string()),
+  comments: optional(array(object({ author: string(), text: string(), createdAt: string() }))),
+  author: optional(string()),
+  createdAt: optional(string()),
+  rejectionReason: optional(string()),
+});
+
+export const termRevisionSchema: Schema<TermRevision> = object({
+  _id: string(),
+  termId: string(),
+  author: string(),
+  createdAt: string(),
+  status: literal("approved", "pending", "rejected"),
+  snapshot: object({
+    term: string(),
+    translation: string(),
+    definition: string(),
+    grammaticalCategory: string(),
+    theme: string(),
+    language: string(),
+  }),
+});
+
+export const paginatedTermsSchema: Schema<PaginatedTerms> = object({
+  terms: array(termSchema),
+  totalTerms: number(),
+  currentPage: optional(number()),
+  totalPages: optional(number()),
+});
+
+export const bookmarksPageSchema: Schema<BookmarksPage> = object({
+  bookmarks: array(termSchema),
+  currentPage: number(),
+  totalPages: number(),
+});
+
+export const voteCountsSchema: Schema<VoteCounts> = object({
+  upvotes: number(),
+  downvotes: number(),
+});
+
+export const voteResponseSchema: Schema<VoteResponse> = object({
+  message: string(),
+  upvotes: optional(number()),
+  downvotes: optional(number()),
+});
+
+export const votesByTermSchema: Schema<Record<string, VoteCounts>> = record(voteCountsSchema);
+
+export const flashcardSchema: Schema<Flashcard> = object({
+  _id: string(),
+  term: string(),
+  translation: string(),
+});
+
+export const quizSessionSchema: Schema<QuizSession> = object({
+  id: string(),
+  settings: object({
+    numberOfQuestions: number(),
+    source: literal("all", "bookmarks", "contributions", "missed", "due"),
+    mode: literal("flashcards", "multipleChoice", "typed"),
+    direction: literal("forward", "reverse"),
+    category: optional(string()),
+    theme: optional(string()),
+    language: optional(string()),
+  }),
+  flashcardIds: array(string()),
+  currentIndex: number(),
+  isFlipped: boolean(),
+  answers: array(object({ card: flashcardSchema, given: string(), correct: boolean() })),
+  startedAt: number(),
+  updatedAt: number(),
+  finishedAt: optional(number()),
+});
+
+export const statsSchema: Schema<Stats> = object({
+  userCount: number(),
+  termCount: number(),
+  approvedTermCount: number(),
+  rejectedTermCount: number(),
+  pendingTermCount: number(),
+  bannedUserCount: number(),
+  adminCount: optional(number()),
+  moderatorCount: optional(number()),
+});
+
+export const userProfileSchema: Schema<UserProfile> = object({
+  _id: string(),
+  username: string(),
+  role: string(),
+  email: optional(string()),
+  isBanned: optional(boolean()),
+});
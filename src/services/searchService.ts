@@ -0,0 +1,29 @@
+// src/services/searchService.ts
+import { ApiResult } from "./apiClient";
+import { cachedQuery } from "./queryCache";
+import { queryKeys } from "./queryKeys";
+import { getAllApprovedTerms } from "./termService";
+import { Filters } from "../models/filtersModel";
+import { Term } from "../models/termModel";
+import { searchTerms, SearchResult } from "../utils/search";
+
+// La recherche approchée se fait côté client, sur tous les termes des filtres actifs
+const SEARCH_CANDIDATES_STALE_TIME = 60 * 1000;
+
+type SearchScope = Pick<Filters, "category" | "theme" | "language">;
+
+export const getSearchCandidates = (scope: SearchScope): Promise<ApiResult<Term[]>> => {
+  return cachedQuery(
+    queryKeys.searchCandidates(scope.category, scope.theme, scope.language),
+    () => getAllApprovedTerms(scope),
+    SEARCH_CANDIDATES_STALE_TIME
+  );
+};
+
+export const searchApprovedTerms = async (
+  query: string,
+  scope: SearchScope = {}
+): Promise<ApiResult<SearchResult[]>> => {
+  const result = await getSearchCandidates(scope);
+  return result.ok ? { ok: true, data: searchTerms(result.data, query) } : result;
+};
@@ -1,14 +1,8 @@
 // src/services/statsService.ts
 import api from "./api";
-import { AxiosError } from "axios";
-import { handleAuthError } from "../utils/handleAuthError";
-import { ErrorResponse } from "../utils/types";
+import { callApi } from "./apiClient";
+import { statsSchema } from "./schemas";
 
 export const getStats = async () => {
-  try {
-    const response = await api.get("/stats");
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  return callApi(() => api.get("/stats"), statsSchema);
 };
@@ -1,7 +1,7 @@
 import { api, publicApi } from './api';
 import { AxiosError } from 'axios';
 import { handleAuthError } from '../utils/handleAuthError';
-import { addTerm, getAllTerms, getPendingTerms, getTermById, updateTerm, deleteTerm, approveTerm, rejectTerm, upvoteTerm, downvoteTerm, addComment, addTag } from './termService';
+import { addTerm, getAllTerms, getModerationTerms, getPendingTerms, getTermById, updateTerm, deleteTerm, approveTerm, rejectTerm, upvoteTerm, downvoteTerm, addComment, addTag, proposeTermEdit, approveEditProposal } from './termService';
 
 // Mock the api and publicApi objects
 jest.mock('./api', () => ({
@@ -30,23 +30,24 @@ describe('termService', () => {
 
     describe('addTerm', () => {
         it('should add a term successfully', async () => {
-            const termData = { term: 'Test', definition: 'Test Definition', grammaticalCategory: 'Noun', theme: 'Test Theme' };
+            const termData = { term: 'Test', translation: 'Essai', definition: 'Test Definition', grammaticalCategory: 'Noun', theme: 'Test Theme', language: 'English' };
             (api.post as jest.Mock).mockResolvedValue({ data: termData });
 
             const result = await addTerm(termData);
 
             expect(api.post).toHaveBeenCalledWith('/terms', termData);
-            expect(result).toEqual(termData);
+            expect(result).toEqual({ ok: true, data: termData });
         });
 
         it('should handle error when adding a term fails', async () => {
-            const termData = { term: 'Test', definition: 'Test Definition', grammaticalCategory: 'Noun', theme: 'Test Theme' };
+            const termData = { term: 'Test', translation: 'Essai', definition: 'Test Definition', grammaticalCategory: 'Noun', theme: 'Test Theme', language: 'English' };
             const error = new AxiosError('Error');
             (api.post as jest.Mock).mockRejectedValue(error);
 
-            await addTerm(termData);
+            const result = await addTerm(termData);
 
             expect(handleAuthError).toHaveBeenCalledWith(error);
+            expect(result.ok).toBe(false);
         });
     });
 
@@ -57,17 +58,18 @@ describe('termService', () => {
 
             const result = await getAllTerms();
 
-            expect(api.get).toHaveBeenCalledWith('/terms');
-            expect(result).toEqual(terms);
+            expect(api.get).toHaveBeenCalledWith('/terms', { params: { page: 1, limit: 10 } });
+            expect(result).toEqual({ ok: true, data: terms });
         });
 
         it('should handle error when getting all terms fails', async () => {
             const error = new AxiosError('Error');
             (api.get as jest.Mock).mockRejectedValue(error);
 
-            await getAllTerms();
+            const result = await getAllTerms();
 
             expect(handleAuthError).toHaveBeenCalledWith(error);
+            expect(result.ok).toBe(false);
         });
     });
 
@@ -80,7 +82,7 @@ describe('termService', () => {
     //         const result = await getApprovedTerms();
 
     //         expect(publicApi.get).toHaveBeenCalledWith('/terms/approved');
-    //         expect(result).toEqual(terms);
+    //         expect(result).toEqual({ ok: true, data: terms });
     //     });
 
     //     it('should handle error when getting approved terms fails', async () => {
@@ -93,6 +95,20 @@ describe('termService', () => {
     //     });
     // });
 
+    describe('getModerationTerms', () => {
+        it('lets the server filter by status and follows every page', async () => {
+            (api.get as jest.Mock)
+                .mockResolvedValueOnce({ data: { terms: [{ _id: '1' }], totalTerms: 2 } })
+                .mockResolvedValueOnce({ data: { terms: [{ _id: '2' }], totalTerms: 2 } });
+
+            const result = await getModerationTerms('rejected');
+
+            expect(api.get).toHaveBeenNthCalledWith(1, '/terms', { params: { page: 1, limit: 100, status: 'rejected' } });
+            expect(api.get).toHaveBeenNthCalledWith(2, '/terms', { params: { page: 2, limit: 100, status: 'rejected' } });
+            expect(result).toEqual({ ok: true, data: [{ _id: '1' }, { _id: '2' }] });
+        });
+    });
+
     describe('getPendingTerms', () => {
         it('should get pending terms successfully', async () => {
             const terms = [{ term: 'Test', definition: 'Test Definition' }];
@@ -101,16 +117,17 @@ describe('termService', () => {
             const result = await getPendingTerms();
 
             expect(api.get).toHaveBeenCalledWith('/terms/pending');
-            expect(result).toEqual(terms);
+            expect(result).toEqual({ ok: true, data: terms });
         });
 
         it('should handle error when getting pending terms fails', async () => {
             const error = new AxiosError('Error');
             (api.get as jest.Mock).mockRejectedValue(error);
 
-            await getPendingTerms();
+            const result = await getPendingTerms();
 
             expect(handleAuthError).toHaveBeenCalledWith(error);
+            expect(result.ok).toBe(false);
         });
     });
 
@@ -122,38 +139,40 @@ describe('termService', () => {
             const result = await getTermById('1');
 
             expect(publicApi.get).toHaveBeenCalledWith('/terms/1');
-            expect(result).toEqual(term);
+            expect(result).toEqual({ ok: true, data: term });
         });
 
         it('should handle error when getting a term by id fails', async () => {
             const error = new AxiosError('Error');
             (publicApi.get as jest.Mock).mockRejectedValue(error);
 
-            await getTermById('1');
+            const result = await getTermById('1');
 
             expect(handleAuthError).toHaveBeenCalledWith(error);
+            expect(result.ok).toBe(false);
         });
     });
 
     describe('updateTerm', () => {
         it('should update a term successfully', async () => {
-            const termData = { term: 'Test', definition: 'Test Definition', grammaticalCategory: 'Noun', theme: 'Test Theme' };
+            const termData = { term: 'Test', translation: 'Essai', definition: 'Test Definition', grammaticalCategory: 'Noun', theme: 'Test Theme', language: 'English' };
             (api.put as jest.Mock).mockResolvedValue({ data: termData });
 
             const result = await updateTerm('1', termData);
 
             expect(api.put).toHaveBeenCalledWith('/terms/1', termData);
-            expect(result).toEqual(termData);
+            expect(result).toEqual({ ok: true, data: termData });
         });
 
         it('should handle error when updating a term fails', async () => {
-            const termData = { term: 'Test', definition: 'Test Definition', grammaticalCategory: 'Noun', theme: 'Test Theme' };
+            const termData = { term: 'Test', translation: 'Essai', definition: 'Test Definition', grammaticalCategory: 'Noun', theme: 'Test Theme', language: 'English' };
             const error = new AxiosError('Error');
             (api.put as jest.Mock).mockRejectedValue(error);
 
-            await updateTerm('1', termData);
+            const result = await updateTerm('1', termData);
 
             expect(handleAuthError).toHaveBeenCalledWith(error);
+            expect(result.ok).toBe(false);
         });
     });
 
@@ -165,16 +184,17 @@ describe('termService', () => {
             const result = await deleteTerm('1');
 
             expect(api.delete).toHaveBeenCalledWith('/terms/1');
-            expect(result).toEqual(response);
+            expect(result).toEqual({ ok: true, data: response });
         });
 
         it('should handle error when deleting a term fails', async () => {
             const error = new AxiosError('Error');
             (api.delete as jest.Mock).mockRejectedValue(error);
 
-            await deleteTerm('1');
+            const result = await deleteTerm('1');
 
             expect(handleAuthError).toHaveBeenCalledWith(error);
+            expect(result.ok).toBe(false);
         });
     });
 
@@ -187,7 +207,7 @@ describe('termService', () => {
             const result = await approveTerm('1', approveData);
 
             expect(api.post).toHaveBeenCalledWith('/terms/1/approve', approveData);
-            expect(result).toEqual(response);
+            expect(result).toEqual({ ok: true, data: response });
         });
 
         it('should handle error when approving a term fails', async () => {
@@ -195,9 +215,10 @@ describe('termService', () => {
             const error = new AxiosError('Error');
             (api.post as jest.Mock).mockRejectedValue(error);
 
-            await approveTerm('1', approveData);
+            const result = await approveTerm('1', approveData);
 
             expect(handleAuthError).toHaveBeenCalledWith(error);
+            expect(result.ok).toBe(false);
         });
     });
 
@@ -206,19 +227,20 @@ describe('termService', () => {
             const response = { message: 'Rejected successfully' };
             (api.post as jest.Mock).mockResolvedValue({ data: response });
 
-            const result = await rejectTerm('1');
+            const result = await rejectTerm('1', 'Duplicate of an existing term');
 
-            expect(api.post).toHaveBeenCalledWith('/terms/1/reject');
-            expect(result).toEqual(response);
+            expect(api.post).toHaveBeenCalledWith('/terms/1/reject', { reason: 'Duplicate of an existing term' });
+            expect(result).toEqual({ ok: true, data: response });
         });
 
         it('should handle error when rejecting a term fails', async () => {
             const error = new AxiosError('Error');
             (api.post as jest.Mock).mockRejectedValue(error);
 
-            await rejectTerm('1');
+            const result = await rejectTerm('1', 'Duplicate of an existing term');
 
             expect(handleAuthError).toHaveBeenCalledWith(error);
+            expect(result.ok).toBe(false);
         });
     });
 
@@ -230,16 +252,18 @@ describe('termService', () => {
             const result = await upvoteTerm('1');
 
             expect(api.post).toHaveBeenCalledWith('/terms/1/upvote');
-            expect(result).toEqual(response);
+            expect(result).toEqual({ ok: true, data: response });
         });
 
         it('should handle error when upvoting a term fails', async () => {
             const error = new AxiosError('Error');
             (api.post as jest.Mock).mockRejectedValue(error);
 
-            await upvoteTerm('1');
+            const result = await upvoteTerm('1');
 
-            expect(handleAuthError).toHaveBeenCalledWith(error);
+            // L'erreur est signalée par useTermVote, qui annule le vote optimiste
+            expect(handleAuthError).not.toHaveBeenCalled();
+            expect(result.ok).toBe(false);
         });
     });
 
@@ -251,16 +275,18 @@ describe('termService', () => {
             const result = await downvoteTerm('1');
 
             expect(api.post).toHaveBeenCalledWith('/terms/1/downvote');
-            expect(result).toEqual(response);
+            expect(result).toEqual({ ok: true, data: response });
         });
 
         it('should handle error when downvoting a term fails', async () => {
             const error = new AxiosError('Error');
             (api.post as jest.Mock).mockRejectedValue(error);
 
-            await downvoteTerm('1');
+            const result = await downvoteTerm('1');
 
-            expect(handleAuthError).toHaveBeenCalledWith(error);
+            // L'erreur est signalée par useTermVote, qui annule le vote optimiste
+            expect(handleAuthError).not.toHaveBeenCalled();
+            expect(result.ok).toBe(false);
         });
     });
 
@@ -273,7 +299,7 @@ describe('termService', () => {
             const result = await addComment('1', commentData);
 
             expect(api.post).toHaveBeenCalledWith('/terms/1/comment', commentData);
-            expect(result).toEqual(response);
+            expect(result).toEqual({ ok: true, data: response });
         });
 
         it('should handle error when adding a comment fails', async () => {
@@ -281,9 +307,10 @@ describe('termService', () => {
             const error = new AxiosError('Error');
             (api.post as jest.Mock).mockRejectedValue(error);
 
-            await addComment('1', commentData);
+            const result = await addComment('1', commentData);
 
             expect(handleAuthError).toHaveBeenCalledWith(error);
+            expect(result.ok).toBe(false);
         });
     });
 
@@ -296,7 +323,7 @@ describe('termService', () => {
             const result = await addTag('1', tagData);
 
             expect(api.post).toHaveBeenCalledWith('/terms/1/tag', tagData);
-            expect(result).toEqual(response);
+            expect(result).toEqual({ ok: true, data: response });
         });
 
         it('should handle error when adding a tag fails', async () => {
@@ -304,9 +331,34 @@ describe('termService', () => {
             const error = new AxiosError('Error');
             (api.post as jest.Mock).mockRejectedValue(error);
 
-            await addTag('1', tagData);
+            const result = await addTag('1', tagData);
 
             expect(handleAuthError).toHaveBeenCalledWith(error);
+            expect(result.ok).toBe(false);
+        });
+    });
+
+    describe('edit proposals', () => {
+        const snapshot = { term: 'Test', translation: 'Essai', definition: 'New Definition', grammaticalCategory: 'Noun', theme: 'Test Theme', language: 'English' };
+
+        it('should submit a suggested edit without updating the term', async () => {
+            const revision = { _id: 'r1', termId: '1', author: 'alice', createdAt: '2024-01-01', status: 'pending', snapshot };
+            (api.post as jest.Mock).mockResolvedValue({ data: revision });
+
+            const result = await proposeTermEdit('1', snapshot);
+
+            expect(api.post).toHaveBeenCalledWith('/terms/1/revisions', { snapshot });
+            expect(api.put).not.toHaveBeenCalled();
+            expect(result).toEqual({ ok: true, data: revision });
+        });
+
+        it('should accept a suggested edit', async () => {
+            (api.post as jest.Mock).mockResolvedValue({ data: { _id: '1' } });
+
+            const result = await approveEditProposal('1', 'r1');
+
+            expect(api.post).toHaveBeenCalledWith('/terms/1/revisions/r1/approve');
+            expect(result.ok).toBe(true);
         });
     });
 });
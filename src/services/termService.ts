@@ -1,214 +1,280 @@
 import { api, publicApi } from "./api";
-import { AxiosError } from "axios";
-import { handleAuthError } from "../utils/handleAuthError";
-import { ErrorResponse } from "../utils/types";
-import { Term } from "../models/termModel";
-
-
-
-export const addTerm = async (
-  termData: {
-    term: string;
-    definition: string;
-    grammaticalCategory: string;
-    theme: string;
-  },) => {
-  try {
-    const response = await api.post("/terms", termData);
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
+import { ApiResult, CallApiOptions, callApi } from "./apiClient";
+import {
+  bookmarksPageSchema,
+  flashcardSchema,
+  messageSchema,
+  paginatedTermsSchema,
+  termRevisionSchema,
+  termSchema,
+  voteCountsSchema,
+  voteResponseSchema,
+  votesByTermSchema,
+} from "./schemas";
+import { invalidateQueries } from "./queryCache";
+import { queryKeys } from "./queryKeys";
+import { array, string } from "../utils/schema";
+import { ApproveTermInput, Flashcard, PaginatedTerms, Term, TermInput, TermSnapshot } from "../models/termModel";
+import { Filters } from "../models/filtersModel";
+import { QuizScope, QuizSource } from "../models/quizModel";
+import { ModerationStatus } from "../models/moderationModel";
+
+
+// Après une mutation, on invalide les données en cache qu'elle a pu modifier
+const invalidateOnSuccess = async <T>(
+  request: Promise<ApiResult<T>>,
+  ...keys: string[]
+) => {
+  const result = await request;
+  if (result.ok) {
+    invalidateQueries(...keys);
   }
+  return result;
 };
 
-export const getAllTerms = async (page: number = 1, limit: number = 10) => {
-  try {
-    const response = await api.get(`/terms`, {
-      params: { page, limit },
-    });
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+export const addTerm = async (termData: TermInput, options?: CallApiOptions) => {
+  // Un terme peut créer une catégorie, un thème ou une langue en attente
+  return invalidateOnSuccess(
+    callApi(() => api.post("/terms", termData), termSchema, options),
+    queryKeys.terms,
+    queryKeys.allCategories,
+    queryKeys.allThemes,
+    queryKeys.allLanguages
+  );
+};
+
+// Sans statut, le serveur renvoie les termes de tous les statuts
+export const getAllTerms = async (page: number = 1, limit: number = 10, status?: string) => {
+  return callApi(
+    () => api.get(`/terms`, { params: { page, limit, status } }),
+    paginatedTermsSchema
+  );
+};
+
+export const getApprovedTerms = async (params?: Filters) => {
+  return callApi(() => api.get(`/terms/approved`, { params }), paginatedTermsSchema);
 };
 
-export const getApprovedTerms = async (
-  params?: { [key: string]: any }
-): Promise<{ terms: Term[]; totalTerms: number } | void> => {
-  try {
-    const response = await api.get(`/terms/approved`, { params });
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
+const ALL_TERMS_PAGE_SIZE = 100;
+
+// Enchaîne les pages d'une liste paginée jusqu'à avoir tous les termes
+const fetchAllPages = async (
+  fetchPage: (page: number, limit: number) => Promise<ApiResult<PaginatedTerms>>
+): Promise<ApiResult<Term[]>> => {
+  const terms: Term[] = [];
+  let totalTerms = Infinity;
+  let page = 1;
+  while (terms.length < totalTerms) {
+    const result = await fetchPage(page, ALL_TERMS_PAGE_SIZE);
+    if (!result.ok) {
+      return result;
+    }
+    terms.push(...result.data.terms);
+    totalTerms = result.data.totalTerms;
+    if (result.data.terms.length === 0) {
+      break;
+    }
+    page += 1;
   }
+  return { ok: true, data: terms };
+};
+
+// Parcourt toutes les pages : pour les exports et la recherche côté client
+export const getAllApprovedTerms = async (filters: Filters = {}): Promise<ApiResult<Term[]>> => {
+  return fetchAllPages((page, limit) => getApprovedTerms({ ...filters, page, limit }));
 };
 
 export const getPendingTerms = async () => {
-  try {
-    const response = await api.get("/terms/pending");
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  return callApi(() => api.get("/terms/pending"), array(termSchema));
+};
+
+// Termes soumis par l'utilisateur courant, avec le motif de rejet le cas échéant
+export const getMyTerms = async (status?: string) => {
+  return callApi(() => api.get("/users/me/terms", { params: { status } }), array(termSchema));
 };
 
-export const getQuiz = async (numberOfQuesions:string) => {
-  try {
-    const response = await api.get("/terms/quiz", { params: { number:numberOfQuesions } });
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
+// File de modération : les termes en attente ont leur route, les autres statuts sont filtrés par le serveur
+export const getModerationTerms = async (status: ModerationStatus): Promise<ApiResult<Term[]>> => {
+  if (status === "pending") {
+    return getPendingTerms();
   }
+  return fetchAllPages((page, limit) => getAllTerms(page, limit, status === "all" ? undefined : status));
+};
+
+// Le serveur connaît l'utilisateur courant pour les sources "bookmarks" et "contributions"
+export const getQuiz = async (
+  numberOfQuesions: string,
+  options: QuizScope & { source?: QuizSource } = {}
+) => {
+  return callApi(
+    () => api.get("/terms/quiz", { params: { number: numberOfQuesions, ...options } }),
+    array(string())
+  );
 }
 
 export const getFlashcardById = async (id: string) => {
-  try {
-    const response = await api.get(`/terms/${id}/flashcard`);
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
-
+  return callApi(() => api.get(`/terms/${id}/flashcard`), flashcardSchema);
 }
 
+export const getFlashcards = async (ids: string[]): Promise<ApiResult<Flashcard[]>> => {
+  const results = await Promise.all(ids.map((id) => getFlashcardById(id)));
+  const failure = results.find((result) => !result.ok);
+  if (failure && !failure.ok) {
+    return failure;
+  }
+  return { ok: true, data: results.flatMap((result) => (result.ok ? [result.data] : [])) };
+};
+
 export const getTermById = async (
   id: string,) => {
-  try {
-    const response = await publicApi.get(`/terms/${id}`);
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  return callApi(() => publicApi.get(`/terms/${id}`), termSchema);
 };
 
 export const updateTerm = async (
   id: string,
-  termData: {
-    term: string;
-    definition: string;
-    grammaticalCategory: string;
-    theme: string;
-  },) => {
-  try {
-    const response = await api.put(`/terms/${id}`, termData);
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  termData: TermInput,) => {
+  return invalidateOnSuccess(
+    callApi(() => api.put(`/terms/${id}`, termData), termSchema),
+    queryKeys.terms
+  );
+};
+
+export const getTermRevisions = async (id: string) => {
+  return callApi(() => api.get(`/terms/${id}/revisions`), array(termRevisionSchema));
+};
+
+// Une suggestion de modification est une révision en attente : le terme en ligne ne change pas
+export const proposeTermEdit = async (id: string, snapshot: TermSnapshot) => {
+  return invalidateOnSuccess(
+    callApi(() => api.post(`/terms/${id}/revisions`, { snapshot }), termRevisionSchema),
+    queryKeys.termRevisions(id),
+    queryKeys.editProposals
+  );
+};
+
+export const getEditProposals = async () => {
+  return callApi(() => api.get("/revisions/pending"), array(termRevisionSchema));
+};
+
+// Accepter applique la révision au terme
+export const approveEditProposal = async (termId: string, revisionId: string) => {
+  return invalidateOnSuccess(
+    callApi(() => api.post(`/terms/${termId}/revisions/${revisionId}/approve`), termSchema),
+    queryKeys.terms,
+    queryKeys.editProposals
+  );
+};
+
+export const rejectEditProposal = async (termId: string, revisionId: string) => {
+  return invalidateOnSuccess(
+    callApi(() => api.post(`/terms/${termId}/revisions/${revisionId}/reject`), messageSchema),
+    queryKeys.termRevisions(termId),
+    queryKeys.editProposals
+  );
+};
+
+// Le terme reprend le contenu de la version choisie et repasse en attente d'approbation
+export const revertTerm = async (id: string, revisionId: string) => {
+  return invalidateOnSuccess(
+    callApi(() => api.post(`/terms/${id}/revert`, { revisionId }), termSchema),
+    queryKeys.terms
+  );
 };
 
 export const deleteTerm = async (
   id: string,) => {
-  try {
-    const response = await api.delete(`/terms/${id}`);
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  return invalidateOnSuccess(
+    callApi(() => api.delete(`/terms/${id}`), messageSchema),
+    queryKeys.terms
+  );
 };
 
 export const approveTerm = async (
   id: string,
-  approveData: {
-    grammaticalCategory: string;
-    theme: string;
-    language: string;
-    languageCode: string;
-  },) => {
-  try {
-    const response = await api.post(`/terms/${id}/approve`, approveData);
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  approveData: ApproveTermInput,
+  options?: CallApiOptions) => {
+  return invalidateOnSuccess(
+    callApi(() => api.post(`/terms/${id}/approve`, approveData), messageSchema, options),
+    queryKeys.terms
+  );
 };
 
+// Le motif est affiché au contributeur sur son profil
 export const rejectTerm = async (
-  id: string,) => {
-  try {
-    const response = await api.post(`/terms/${id}/reject`);
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  id: string,
+  reason: string,
+  options?: CallApiOptions) => {
+  return invalidateOnSuccess(
+    callApi(() => api.post(`/terms/${id}/reject`, { reason }), messageSchema, options),
+    queryKeys.terms
+  );
 };
 
 
 export const upvoteTerm = async (
   id: string,) => {
-  try {
-    const response = await api.post(`/terms/${id}/upvote`);
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  return callApi(() => api.post(`/terms/${id}/upvote`), voteResponseSchema, { silent: true });
 };
 
 
 export const downvoteTerm = async (
   id: string,) => {
-  try {
-    const response = await api.post(`/terms/${id}/downvote`);
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  return callApi(() => api.post(`/terms/${id}/downvote`), voteResponseSchema, { silent: true });
 };
 
 export const addComment = async (
   termId: string,
   commentData: { text: string; createdAt: Date },) => {
-  try {
-    const response = await api.post(`/terms/${termId}/comment`, commentData);
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  return invalidateOnSuccess(
+    callApi(() => api.post(`/terms/${termId}/comment`, commentData), messageSchema),
+    queryKeys.term(termId)
+  );
 };
 
 export const getVotes = async (termId:string)=>{
-  try{
-    const response = await api.get(`/terms/${termId}/votes`);
-    return response.data;
-  }catch(error){
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  return callApi(() => api.get(`/terms/${termId}/votes`), voteCountsSchema);
 }
 
+export const getVotesForTerms = async (termIds: string[]) => {
+  return callApi(
+    () => api.get("/terms/votes", { params: { ids: termIds.join(",") } }),
+    votesByTermSchema
+  );
+};
+
 export const addTag = async (
   id: string,
   tagData: { tag: string },) => {
-  try {
-    const response = await api.post(`/terms/${id}/tag`, tagData);
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  return callApi(() => api.post(`/terms/${id}/tag`, tagData), messageSchema);
 };
 
 export const bookmarkTerm = async (id: string) => {
-  try {
-    const response = await api.post(`/terms/${id}/bookmark`);
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  return callApi(() => api.post(`/terms/${id}/bookmark`), messageSchema);
 };
 
 export const unbookmarkTerm = async (id: string) => {
-  try {
-    const response = await api.post(`/terms/${id}/unbookmark`);
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  return callApi(() => api.post(`/terms/${id}/unbookmark`), messageSchema);
 }
 
 export const getBookmarks = async (page:string,limit:string) => {
-  try {
-    const response = await api.get("/terms/bookmarks",{params:{page,limit}});
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
-};
\ No newline at end of file
+  return callApi(
+    () => api.get("/terms/bookmarks",{params:{page,limit}}),
+    bookmarksPageSchema
+  );
+};
+
+export const getAllBookmarks = async (): Promise<ApiResult<Term[]>> => {
+  const bookmarks: Term[] = [];
+  let page = 1;
+  let totalPages = 1;
+  do {
+    const result = await getBookmarks(page.toString(), ALL_TERMS_PAGE_SIZE.toString());
+    if (!result.ok) {
+      return result;
+    }
+    bookmarks.push(...result.data.bookmarks);
+    totalPages = result.data.totalPages;
+    page += 1;
+  } while (page <= totalPages);
+  return { ok: true, data: bookmarks };
+};
@@ -1,32 +1,33 @@
 import {api,publicApi} from "./api";
-import { AxiosError } from "axios";
-import { handleAuthError } from "../utils/handleAuthError";
-import { ErrorResponse } from "../utils/types";
+import { callApi } from "./apiClient";
+import { invalidateQueries } from "./queryCache";
+import { queryKeys } from "./queryKeys";
+import { themeSchema } from "./schemas";
+import { array } from "../utils/schema";
 
 export const getThemes = async () => {
- try{const response = await publicApi.get("/themes/approved");
-  return response.data;} catch(error){
-    handleAuthError(error as AxiosError<ErrorResponse>)
-  }
+  return callApi(() => publicApi.get("/themes/approved"), array(themeSchema));
 };
 
 export const getAllThemes = async () => {
-  try {
-    const response = await api.get("/themes");
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  return callApi(() => api.get("/themes"), array(themeSchema));
 };
 
 
 export const addTheme = async (
   theme: string,
 ) => {
-  const response = await api.post("/themes", { theme });
-  return response.data;
+  const result = await callApi(() => api.post("/themes", { theme }), themeSchema);
+  if (result.ok) {
+    invalidateQueries(queryKeys.themes);
+  }
+  return result;
 };
 
 export const approveTheme = async (themeId: string) => {
-  return await api.post(`/themes/${themeId}/approve`);
-};
\ No newline at end of file
+  const result = await callApi(() => api.post(`/themes/${themeId}/approve`), themeSchema);
+  if (result.ok) {
+    invalidateQueries(queryKeys.themes);
+  }
+  return result;
+};
@@ -1,37 +1,22 @@
 // src/services/userService.ts
 import api from "./api";
-import { AxiosError } from "axios";
-import { handleAuthError } from "../utils/handleAuthError";
-import { ErrorResponse } from "../utils/types";
+import { callApi } from "./apiClient";
+import { messageSchema, userProfileSchema } from "./schemas";
+import { array } from "../utils/schema";
 
 export const getUserProfile = async () => {
-  try {
-    const response = await api.get("/users/me");
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  return callApi(() => api.get("/users/me"), userProfileSchema);
 };
 
 export const getUsers = async () => {
-  try {
-    const response = await api.get("/users");
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  return callApi(() => api.get("/users"), array(userProfileSchema));
 };
 
 export const updateUserProfile = async (
   userData: { username?: string; password?: string },
 
 ) => {
-  try {
-    const response = await api.put("/users/me", userData);
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  return callApi(() => api.put("/users/me", userData), userProfileSchema);
 };
 
 
@@ -39,22 +24,12 @@ export const banUser = async (
   userId: string,
 
 ) => {
-  try {
-    const response = await api.post(`/users/${userId}/ban`);
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  return callApi(() => api.post(`/users/${userId}/ban`), messageSchema);
 };
 
 export const promoteUser = async (
   userId: string,
 
 ) => {
-  try {
-    const response = await api.post(`/users/promote/admin/${userId}`);
-    return response.data;
-  } catch (error) {
-    handleAuthError(error as AxiosError<ErrorResponse>);
-  }
+  return callApi(() => api.post(`/users/promote/admin/${userId}`), messageSchema);
 };
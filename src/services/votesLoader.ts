@@ -0,0 +1,40 @@
+// src/services/votesLoader.ts
+import { ApiResult } from "./apiClient";
+import { getVotesForTerms } from "./termService";
+import { VoteCounts } from "../models/termModel";
+
+type VotesResolver = (result: ApiResult<VoteCounts>) => void;
+
+const EMPTY_VOTES: VoteCounts = { upvotes: 0, downvotes: 0 };
+
+let pendingRequests = new Map<string, VotesResolver[]>();
+let flushScheduled = false;
+
+const flushPendingRequests = async () => {
+  const batch = pendingRequests;
+  pendingRequests = new Map();
+  flushScheduled = false;
+
+  const result = await getVotesForTerms(Array.from(batch.keys()));
+  batch.forEach((resolvers, termId) => {
+    const termResult: ApiResult<VoteCounts> = result.ok
+      ? { ok: true, data: result.data[termId] ?? EMPTY_VOTES }
+      : result;
+    resolvers.forEach((resolve) => resolve(termResult));
+  });
+};
+
+// Les demandes faites pendant le même tour de boucle (une page de TermItem)
+// sont regroupées en un seul appel à /terms/votes
+export const loadVotes = (termId: string): Promise<ApiResult<VoteCounts>> => {
+  return new Promise((resolve) => {
+    const resolvers = pendingRequests.get(termId) ?? [];
+    resolvers.push(resolve);
+    pendingRequests.set(termId, resolvers);
+
+    if (!flushScheduled) {
+      flushScheduled = true;
+      setTimeout(flushPendingRequests, 0);
+    }
+  });
+};
@@ -0,0 +1,18 @@
+import { Term } from '../models/termModel';
+
+// Terme en attente minimal pour les tests ; chaque test ne précise que ce qui le concerne
+export const buildTerm = (id: string, changes: Partial<Term> = {}): Term => ({
+    _id: id,
+    term: id,
+    translation: '',
+    definition: '',
+    grammaticalCategory: { _id: 'c1', name: 'Nom', isApproved: true },
+    theme: { _id: 't1', name: 'Habitat', isApproved: true },
+    language: { _id: 'l1', name: 'Ewondo', code: 'EWO', isApproved: true },
+    status: 'pending',
+    isApproved: false,
+    bookmarkedBy: [],
+    upvotedBy: [],
+    downvotedBy: [],
+    ...changes,
+});
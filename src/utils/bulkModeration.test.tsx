@@ -0,0 +1,39 @@
+import { buildBulkApproval, getUnapprovedAssignments, runBulk } from './bulkModeration';
+import { buildTerm } from '../testing/termFixtures';
+
+const fang = { _id: 'l2', name: 'Fang', code: 'FAN', isApproved: false };
+const unapprovedTheme = { _id: 't1', name: 'Habitat', isApproved: false };
+
+describe('bulk moderation', () => {
+    it('applies shared assignments and keeps the submitted values otherwise', () => {
+        expect(buildBulkApproval(buildTerm('Ndá'), { language: fang })).toEqual({
+            grammaticalCategory: 'Nom',
+            theme: 'Habitat',
+            language: 'Fang',
+            languageCode: 'FAN',
+        });
+    });
+
+    it('lists each unapproved taxonomy item once', () => {
+        const shared = { grammaticalCategory: { _id: 'c2', name: 'Verbe', isApproved: true } };
+        const pending = getUnapprovedAssignments([
+            buildTerm('Ndá', { theme: unapprovedTheme }),
+            buildTerm('Mbolo', { theme: unapprovedTheme, language: fang }),
+        ], shared);
+
+        expect(pending.categories).toEqual([]);
+        expect(pending.themes.map(theme => theme._id)).toEqual(['t1']);
+        expect(pending.languages).toEqual([fang]);
+    });
+
+    it('runs every action and reports failures without stopping', async () => {
+        const action = jest.fn((id: string) => Promise.resolve(
+            id === 'b'
+                ? { ok: false as const, error: { kind: 'server' as const, message: 'Boom' } }
+                : { ok: true as const, data: id }
+        ));
+
+        await expect(runBulk(['a', 'b', 'c'], action)).resolves.toEqual({ succeeded: ['a', 'c'], failed: ['b'] });
+        expect(action).toHaveBeenCalledTimes(3);
+    });
+});
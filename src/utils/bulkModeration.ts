@@ -0,0 +1,64 @@
+import { ApproveTermInput, Term } from "../models/termModel";
+import { Category } from "../models/categoryModel";
+import { Theme } from "../models/themeModel";
+import { Language } from "../models/languageModel";
+import { ApiResult } from "../services/apiClient";
+
+// Valeurs imposées à toute la sélection ; un champ absent garde la valeur soumise
+export interface BulkAssignments {
+  grammaticalCategory?: Category;
+  theme?: Theme;
+  language?: Language;
+}
+
+export interface BulkOutcome {
+  succeeded: string[];
+  failed: string[];
+}
+
+export const resolveBulkAssignments = (term: Term, shared: BulkAssignments) => ({
+  grammaticalCategory: shared.grammaticalCategory ?? term.grammaticalCategory,
+  theme: shared.theme ?? term.theme,
+  language: shared.language ?? term.language,
+});
+
+export const buildBulkApproval = (term: Term, shared: BulkAssignments): ApproveTermInput => {
+  const { grammaticalCategory, theme, language } = resolveBulkAssignments(term, shared);
+  return {
+    grammaticalCategory: grammaticalCategory?.name ?? "",
+    theme: theme?.name ?? "",
+    language: language?.name ?? "",
+    languageCode: language?.code ?? "",
+  };
+};
+
+// Éléments de taxonomie à approuver avant les termes, chacun une seule fois
+export const getUnapprovedAssignments = (terms: Term[], shared: BulkAssignments) => {
+  const collect = <T extends { _id: string; isApproved: boolean }>(items: Array<T | undefined>) =>
+    Array.from(
+      new Map(
+        items
+          .filter((item): item is T => !!item && !item.isApproved)
+          .map((item) => [item._id, item])
+      ).values()
+    );
+  const resolved = terms.map((term) => resolveBulkAssignments(term, shared));
+  return {
+    categories: collect(resolved.map((item) => item.grammaticalCategory)),
+    themes: collect(resolved.map((item) => item.theme)),
+    languages: collect(resolved.map((item) => item.language)),
+  };
+};
+
+// Une requête à la fois : un échec n'interrompt pas le reste de la sélection
+export const runBulk = async <T>(
+  ids: string[],
+  action: (id: string) => Promise<ApiResult<T>>
+): Promise<BulkOutcome> => {
+  const outcome: BulkOutcome = { succeeded: [], failed: [] };
+  for (const id of ids) {
+    const result = await action(id);
+    (result.ok ? outcome.succeeded : outcome.failed).push(id);
+  }
+  return outcome;
+};
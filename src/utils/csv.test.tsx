@@ -0,0 +1,26 @@
+import { parseCsv, toCsv } from './csv';
+
+describe('csv', () => {
+    it('parses quoted cells with delimiters, quotes and line breaks', () => {
+        const text = 'term,definition\r\nCafé,"Boisson, chaude"\nQuote,"Il a dit ""oui""\nsur deux lignes"\n';
+
+        expect(parseCsv(text)).toEqual([
+            ['term', 'definition'],
+            ['Café', 'Boisson, chaude'],
+            ['Quote', 'Il a dit "oui"\nsur deux lignes'],
+        ]);
+    });
+
+    it('detects semicolon separated files and skips blank lines', () => {
+        expect(parseCsv('\uFEFFterm;translation\n\nMaison;House')).toEqual([
+            ['term', 'translation'],
+            ['Maison', 'House'],
+        ]);
+    });
+
+    it('writes cells that round-trip through the parser', () => {
+        const rows = [['term', 'definition'], ['Café', 'Boisson "chaude", forte']];
+
+        expect(parseCsv(toCsv(rows))).toEqual(rows);
+    });
+});
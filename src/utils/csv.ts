@@ -0,0 +1,61 @@
+// Lecture et écriture CSV (RFC 4180) : guillemets, guillemets doublés et retours à la ligne dans les cellules
+
+const detectDelimiter = (text: string) => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const count = (char: string) => firstLine.split(char).length - 1;
+  // Les tableurs en français exportent souvent avec des points-virgules
+  if (count(";") > count(",")) return ";";
+  return count("\t") > count(",") ? "\t" : ",";
+};
+
+export const parseCsv = (text: string, delimiter: string = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== "" || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  // Les lignes vides (souvent en fin de fichier) sont ignorées
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+};
+
+const escapeCell = (value: unknown) => {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\r\n;]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (rows: unknown[][]) => {
+  return rows.map((row) => row.map(escapeCell).join(",")).join("\r\n");
+};
@@ -0,0 +1,25 @@
+import { toAnkiText, toPrintSheets, DeckCard } from './deckExport';
+
+const card = (id: string, front = `Front ${id}`, back = `Back ${id}`): DeckCard => ({ id, front, back, tags: [] });
+
+describe('deck export', () => {
+    it('writes an Anki text deck with escaped fields', () => {
+        const text = toAnkiText([{ id: '1', front: 'Mbolo', back: 'Bonjour <formel>\nsalut', tags: ['Fang', 'Daily_life'] }], 'Bookmarks');
+
+        expect(text.split('\n')).toEqual([
+            '#separator:tab',
+            '#html:true',
+            '#deck:Bookmarks',
+            '#columns:Front\tBack\tTags',
+            '#tags column:3',
+            'Mbolo\tBonjour &lt;formel&gt;<br>salut\tFang Daily_life',
+        ]);
+    });
+
+    it('mirrors each row on the back side for double-sided printing', () => {
+        const [sheet] = toPrintSheets([card('1'), card('2'), card('3')], 2, 2);
+
+        expect(sheet.fronts.map(front => front?.id ?? null)).toEqual(['1', '2', '3', null]);
+        expect(sheet.backs.map(back => back?.id ?? null)).toEqual(['2', '1', null, '3']);
+    });
+});
@@ -0,0 +1,73 @@
+import { Flashcard, Term } from "../models/termModel";
+import { toCsv } from "./csv";
+
+// Recto : le terme, verso : sa traduction, comme dans QuizPage
+export interface DeckCard {
+  id: string;
+  front: string;
+  back: string;
+  tags: string[];
+}
+
+// Les tags Anki ne peuvent pas contenir d'espaces
+const toTag = (value: string) => value.trim().replace(/\s+/g, "_");
+
+export const termToCard = (term: Term): DeckCard => ({
+  id: term._id,
+  front: term.term,
+  back: term.translation,
+  tags: [term.language?.name, term.theme?.name].filter((tag): tag is string => Boolean(tag)).map(toTag),
+});
+
+export const flashcardToCard = (flashcard: Flashcard): DeckCard => ({
+  id: flashcard._id,
+  front: flashcard.term,
+  back: flashcard.translation,
+  tags: [],
+});
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/\t/g, " ")
+    .replace(/\r?\n/g, "<br>");
+
+// Format texte d'Anki (2.1.55+) : les en-têtes "#" décrivent les colonnes à l'import
+export const toAnkiText = (cards: DeckCard[], deckName: string) => {
+  const header = [
+    "#separator:tab",
+    "#html:true",
+    `#deck:${deckName.replace(/[\r\n]/g, " ")}`,
+    "#columns:Front\tBack\tTags",
+    "#tags column:3",
+  ];
+  const lines = cards.map((card) =>
+    [escapeHtml(card.front), escapeHtml(card.back), card.tags.join(" ")].join("\t")
+  );
+  return [...header, ...lines].join("\n");
+};
+
+export const toDeckCsv = (cards: DeckCard[]) => {
+  return toCsv([["Front", "Back", "Tags"], ...cards.map((card) => [card.front, card.back, card.tags.join(" ")])]);
+};
+
+// Découpe en feuilles pour l'impression recto verso : au verso, chaque ligne est inversée
+// pour que la traduction tombe derrière son terme quand on retourne la feuille (bord long).
+export const toPrintSheets = (cards: DeckCard[], columns: number, rows: number) => {
+  const perSheet = columns * rows;
+  const sheets: Array<{ fronts: Array<DeckCard | null>; backs: Array<DeckCard | null> }> = [];
+  for (let start = 0; start < cards.length; start += perSheet) {
+    const fronts: Array<DeckCard | null> = cards.slice(start, start + perSheet);
+    while (fronts.length < perSheet) {
+      fronts.push(null);
+    }
+    const backs: Array<DeckCard | null> = [];
+    for (let row = 0; row < rows; row++) {
+      backs.push(...fronts.slice(row * columns, (row + 1) * columns).reverse());
+    }
+    sheets.push({ fronts, backs });
+  }
+  return sheets;
+};
@@ -0,0 +1,27 @@
+import { diffWords } from './diff';
+
+describe('diffWords', () => {
+    it('marks removed and added words and keeps the unchanged ones', () => {
+        expect(diffWords('a small red house', 'a big red house')).toEqual([
+            { type: 'equal', value: 'a ' },
+            { type: 'removed', value: 'small' },
+            { type: 'added', value: 'big' },
+            { type: 'equal', value: ' red house' },
+        ]);
+    });
+
+    it('rebuilds both texts from the parts', () => {
+        const before = 'Lieu où  l’on habite';
+        const after = 'Lieu où l’on habite avec sa famille';
+        const parts = diffWords(before, after);
+
+        expect(parts.filter(part => part.type !== 'added').map(part => part.value).join('')).toBe(before);
+        expect(parts.filter(part => part.type !== 'removed').map(part => part.value).join('')).toBe(after);
+    });
+
+    it('handles empty texts', () => {
+        expect(diffWords('', 'new')).toEqual([{ type: 'added', value: 'new' }]);
+        expect(diffWords('old', '')).toEqual([{ type: 'removed', value: 'old' }]);
+        expect(diffWords('', '')).toEqual([]);
+    });
+});
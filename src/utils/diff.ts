@@ -0,0 +1,50 @@
+export type DiffPartType = "equal" | "added" | "removed";
+
+export interface DiffPart {
+  type: DiffPartType;
+  value: string;
+}
+
+// Mots et espaces sont des jetons distincts pour que le texte se recompose à l'identique
+const tokenize = (text: string) => text.split(/(\s+)/).filter(Boolean);
+
+const pushPart = (parts: DiffPart[], type: DiffPartType, value: string) => {
+  const last = parts[parts.length - 1];
+  if (last && last.type === type) {
+    last.value += value;
+  } else {
+    parts.push({ type, value });
+  }
+};
+
+// Diff au niveau des mots par plus longue sous-séquence commune
+export const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j] ? lengths[i + 1][j + 1] + 1 : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      pushPart(parts, "equal", a[i]);
+      i += 1;
+      j += 1;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      pushPart(parts, "removed", a[i]);
+      i += 1;
+    } else {
+      pushPart(parts, "added", b[j]);
+      j += 1;
+    }
+  }
+  a.slice(i).forEach((token) => pushPart(parts, "removed", token));
+  b.slice(j).forEach((token) => pushPart(parts, "added", token));
+  return parts;
+};
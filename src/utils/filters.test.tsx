@@ -0,0 +1,21 @@
+import { parseFilters, serializeFilters } from './filters';
+
+describe('filters query string', () => {
+    it('round-trips every filter through the query string', () => {
+        const filters = { category: 'Noun', theme: 'Sport', language: 'Français', searchTerm: 'élan', page: 3, limit: 20 };
+
+        const params = serializeFilters(filters);
+
+        expect(params.toString()).toBe('category=Noun&theme=Sport&language=Fran%C3%A7ais&q=%C3%A9lan&page=3&limit=20');
+        expect(parseFilters(params)).toEqual(filters);
+    });
+
+    it('omits empty values and the first page', () => {
+        expect(serializeFilters({ category: '', searchTerm: '', page: 1 }).toString()).toBe('');
+    });
+
+    it('ignores malformed page numbers', () => {
+        expect(parseFilters(new URLSearchParams('page=abc&limit=-5'))).toEqual({});
+        expect(parseFilters(new URLSearchParams('page=0'))).toEqual({});
+    });
+});
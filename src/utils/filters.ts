@@ -0,0 +1,49 @@
+import { Filters } from "../models/filtersModel";
+
+// Nom du paramètre d'URL pour chaque champ de Filters
+const FILTER_PARAMS = {
+  category: "category",
+  theme: "theme",
+  language: "language",
+  searchTerm: "q",
+  page: "page",
+  limit: "limit",
+} as const;
+
+const parsePositiveInt = (value: string | null) => {
+  if (!value || !/^\d+$/.test(value)) {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return parsed > 0 ? parsed : undefined;
+};
+
+export const parseFilters = (params: URLSearchParams): Filters => {
+  const filters: Filters = {};
+  const category = params.get(FILTER_PARAMS.category);
+  const theme = params.get(FILTER_PARAMS.theme);
+  const language = params.get(FILTER_PARAMS.language);
+  const searchTerm = params.get(FILTER_PARAMS.searchTerm);
+  const page = parsePositiveInt(params.get(FILTER_PARAMS.page));
+  const limit = parsePositiveInt(params.get(FILTER_PARAMS.limit));
+
+  if (category) filters.category = category;
+  if (theme) filters.theme = theme;
+  if (language) filters.language = language;
+  if (searchTerm) filters.searchTerm = searchTerm;
+  if (page) filters.page = page;
+  if (limit) filters.limit = limit;
+  return filters;
+};
+
+// Les valeurs vides et la première page sont omises pour garder des URLs courtes
+export const serializeFilters = (filters: Filters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.category) params.set(FILTER_PARAMS.category, filters.category);
+  if (filters.theme) params.set(FILTER_PARAMS.theme, filters.theme);
+  if (filters.language) params.set(FILTER_PARAMS.language, filters.language);
+  if (filters.searchTerm) params.set(FILTER_PARAMS.searchTerm, filters.searchTerm);
+  if (filters.page && filters.page > 1) params.set(FILTER_PARAMS.page, String(filters.page));
+  if (filters.limit) params.set(FILTER_PARAMS.limit, String(filters.limit));
+  return params;
+};
@@ -0,0 +1,44 @@
+import { termsToCsv, termsToJson, termsToTbx } from './glossaryExport';
+import { Term } from '../models/termModel';
+
+const term = {
+    _id: 't1',
+    term: 'Mbolo',
+    translation: 'Bonjour',
+    definition: 'Salutation <formelle> & amicale',
+    grammaticalCategory: { _id: 'c1', name: 'Interjection', isApproved: true },
+    theme: { _id: 'th1', name: 'Greetings', isApproved: true },
+    language: { _id: 'l1', name: 'Fang', code: 'FAN', isApproved: true },
+} as Term;
+
+describe('glossary export', () => {
+    it('exports a flat CSV with the language code', () => {
+        expect(termsToCsv([term]).split('\r\n')).toEqual([
+            'id,term,translation,definition,grammaticalCategory,theme,language,languageCode',
+            't1,Mbolo,Bonjour,Salutation <formelle> & amicale,Interjection,Greetings,Fang,FAN',
+        ]);
+    });
+
+    it('exports JSON entries', () => {
+        expect(JSON.parse(termsToJson([term]))[0]).toEqual({
+            id: 't1',
+            term: 'Mbolo',
+            translation: 'Bonjour',
+            definition: 'Salutation <formelle> & amicale',
+            grammaticalCategory: 'Interjection',
+            theme: 'Greetings',
+            language: 'Fang',
+            languageCode: 'FAN',
+        });
+    });
+
+    it('exports escaped TBX concept entries', () => {
+        const tbx = termsToTbx([term]);
+
+        expect(tbx).toContain('<conceptEntry id="c-t1">');
+        expect(tbx).toContain('<langSec xml:lang="fan">');
+        expect(tbx).toContain('<descrip type="definition">Salutation &lt;formelle&gt; &amp; amicale</descrip>');
+        expect(tbx).toContain('<termNote type="partOfSpeech">Interjection</termNote>');
+        expect(tbx).toContain('<term>Bonjour</term>');
+    });
+});
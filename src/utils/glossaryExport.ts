@@ -0,0 +1,116 @@
+import { Term } from "../models/termModel";
+import { toCsv } from "./csv";
+
+export type ExportFormat = "csv" | "json" | "tbx";
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: "CSV", extension: "csv", mimeType: "text/csv" },
+  json: { label: "JSON", extension: "json", mimeType: "application/json" },
+  tbx: { label: "TBX", extension: "tbx", mimeType: "application/x-tbx+xml" },
+};
+
+// Les traductions du glossaire sont rédigées en français
+const TRANSLATION_LANGUAGE = "fr";
+
+interface GlossaryEntry {
+  id: string;
+  term: string;
+  translation: string;
+  definition: string;
+  grammaticalCategory: string;
+  theme: string;
+  language: string;
+  languageCode: string;
+}
+
+const toEntry = (term: Term): GlossaryEntry => ({
+  id: term._id,
+  term: term.term,
+  translation: term.translation,
+  definition: term.definition,
+  grammaticalCategory: term.grammaticalCategory?.name ?? "",
+  theme: term.theme?.name ?? "",
+  language: term.language?.name ?? "",
+  languageCode: term.language?.code ?? "",
+});
+
+const ENTRY_COLUMNS: Array<keyof GlossaryEntry> = [
+  "id",
+  "term",
+  "translation",
+  "definition",
+  "grammaticalCategory",
+  "theme",
+  "language",
+  "languageCode",
+];
+
+export const termsToCsv = (terms: Term[]) => {
+  const entries = terms.map(toEntry);
+  return toCsv([ENTRY_COLUMNS, ...entries.map((entry) => ENTRY_COLUMNS.map((column) => entry[column]))]);
+};
+
+export const termsToJson = (terms: Term[]) => {
+  return JSON.stringify(terms.map(toEntry), null, 2);
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+
+// TBX-Basic (ISO 30042) : une entrée de concept par terme, une section par langue
+export const termsToTbx = (terms: Term[]) => {
+  const concepts = terms.map(toEntry).map((entry) => {
+    const sourceLanguage = escapeXml(entry.languageCode.toLowerCase() || "und");
+    return [
+      `      <conceptEntry id="c-${escapeXml(entry.id)}">`,
+      entry.theme && `        <descrip type="subjectField">${escapeXml(entry.theme)}</descrip>`,
+      `        <langSec xml:lang="${sourceLanguage}">`,
+      entry.definition && `          <descrip type="definition">${escapeXml(entry.definition)}</descrip>`,
+      `          <termSec>`,
+      `            <term>${escapeXml(entry.term)}</term>`,
+      entry.grammaticalCategory && `            <termNote type="partOfSpeech">${escapeXml(entry.grammaticalCategory)}</termNote>`,
+      `          </termSec>`,
+      `        </langSec>`,
+      `        <langSec xml:lang="${TRANSLATION_LANGUAGE}">`,
+      `          <termSec>`,
+      `            <term>${escapeXml(entry.translation)}</term>`,
+      `          </termSec>`,
+      `        </langSec>`,
+      `      </conceptEntry>`,
+    ].filter(Boolean).join("\n");
+  });
+
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<tbx type="TBX-Basic" style="dca" xml:lang="${TRANSLATION_LANGUAGE}" xmlns="urn:iso:std:iso:30042:ed-2">`,
+    `  <tbxHeader>`,
+    `    <fileDesc>`,
+    `      <sourceDesc>`,
+    `        <p>Kuma glossary export</p>`,
+    `      </sourceDesc>`,
+    `    </fileDesc>`,
+    `  </tbxHeader>`,
+    `  <text>`,
+    `    <body>`,
+    ...concepts,
+    `    </body>`,
+    `  </text>`,
+    `</tbx>`,
+  ].join("\n");
+};
+
+export const formatGlossary = (terms: Term[], format: ExportFormat) => {
+  switch (format) {
+    case "csv":
+      return termsToCsv(terms);
+    case "json":
+      return termsToJson(terms);
+    case "tbx":
+      return termsToTbx(terms);
+  }
+};
@@ -0,0 +1,58 @@
+import { AxiosError, AxiosHeaders } from 'axios';
+import { handleAuthError } from './handleAuthError';
+import { notify } from '../services/notificationService';
+
+jest.mock('../services/notificationService', () => ({
+    notify: jest.fn(),
+}));
+
+const axiosErrorWithStatus = (status: number, message?: string) => {
+    const config = { headers: new AxiosHeaders() };
+    return new AxiosError('Request failed', 'ERR_BAD_RESPONSE', config, null, {
+        status,
+        statusText: '',
+        headers: {},
+        config,
+        data: message ? { message } : {},
+    });
+};
+
+describe('handleAuthError', () => {
+    beforeEach(() => {
+        jest.clearAllMocks();
+    });
+
+    it('does not notify on 401, the api interceptors handle the session', () => {
+        handleAuthError(axiosErrorWithStatus(401));
+
+        expect(notify).not.toHaveBeenCalled();
+    });
+
+    it('notifies a warning on 403', () => {
+        handleAuthError(axiosErrorWithStatus(403));
+
+        expect(notify).toHaveBeenCalledWith(expect.objectContaining({
+            type: 'warning',
+            message: 'Access denied: You do not have the right permissions',
+        }));
+    });
+
+    it('notifies the server message as an error', () => {
+        handleAuthError(axiosErrorWithStatus(500, 'Database unavailable'));
+
+        expect(notify).toHaveBeenCalledWith(expect.objectContaining({
+            type: 'error',
+            message: 'Database unavailable',
+        }));
+    });
+
+    it('adds a retry action when a retry callback is given', () => {
+        const retry = jest.fn();
+        handleAuthError(new AxiosError('Network Error'), retry);
+
+        const notification = (notify as jest.Mock).mock.calls[0][0];
+        expect(notification.action.label).toBe('Retry');
+        notification.action.onClick();
+        expect(retry).toHaveBeenCalled();
+    });
+});
@@ -1,16 +1,20 @@
-import { AxiosError } from "axios";
-import { ErrorResponse } from "./types";
+import { normalizeError } from "./normalizeError";
+import { notify } from "../services/notificationService";
 
 export const handleAuthError = (
-  error: AxiosError<ErrorResponse>,
+  error: unknown,
+  retry?: () => void,
 ) => {
-  if (error.response?.status === 401) {
-    // Rediriger vers la page de connexion si le token a expiré
-    window.location.href = "/";
-  } else if (error.response?.status === 403) {
-    alert("Access denied: You do not have the right permissions");
-  } else {
-    const errorMessage = error.response?.data?.message || error.message;
-    alert(`Error: ${errorMessage}`);
+  const appError = normalizeError(error);
+
+  if (appError.kind === "unauthorized") {
+    // La session expirée est déjà prise en charge par les intercepteurs de api.ts
+    return;
   }
+
+  notify({
+    type: appError.kind === "forbidden" ? "warning" : "error",
+    message: appError.message,
+    action: retry ? { label: "Retry", onClick: retry } : undefined,
+  });
 };
@@ -0,0 +1,66 @@
+import { collectAttempts, getDailyActivity, getMastery, getStreaks, getUpcomingReviews, QuizAttempt } from './learningStats';
+import { DEFAULT_QUIZ_SETTINGS } from './quiz';
+import { Term } from '../models/termModel';
+
+const today = new Date(2024, 2, 10, 15, 0);
+const attempt = (day: string, correct: boolean, cardId: string = '1'): QuizAttempt => ({ cardId, correct, day });
+
+describe('learning statistics', () => {
+    it('counts reviews and accuracy per day, including empty days', () => {
+        const session = {
+            id: 's1',
+            settings: DEFAULT_QUIZ_SETTINGS,
+            flashcardIds: ['1', '2'],
+            currentIndex: 1,
+            isFlipped: false,
+            answers: [
+                { card: { _id: '1', term: 'a', translation: 'b' }, given: 'b', correct: true },
+                { card: { _id: '2', term: 'c', translation: 'd' }, given: 'x', correct: false },
+            ],
+            startedAt: today.getTime(),
+            updatedAt: today.getTime(),
+        };
+
+        expect(getDailyActivity(collectAttempts([session]), 3, today)).toEqual([
+            { day: '2024-03-08', reviewed: 0, correct: 0, accuracy: null },
+            { day: '2024-03-09', reviewed: 0, correct: 0, accuracy: null },
+            { day: '2024-03-10', reviewed: 2, correct: 1, accuracy: 50 },
+        ]);
+    });
+
+    it('computes the current and best daily streaks', () => {
+        const attempts = ['2024-02-27', '2024-02-28', '2024-02-29', '2024-03-01', '2024-03-08', '2024-03-09']
+            .map(day => attempt(day, true));
+
+        expect(getStreaks(attempts, today)).toEqual({ current: 2, best: 4 });
+        expect(getStreaks([...attempts, attempt('2024-03-10', true)], today)).toEqual({ current: 3, best: 4 });
+        expect(getStreaks([attempt('2024-03-07', true)], today).current).toBe(0);
+    });
+
+    it('groups mastery by language using the latest answer of each card', () => {
+        const term = (id: string, language: string) => [id, { _id: id, language: { name: language } } as Term] as const;
+        const termsById = new Map([term('1', 'Ewondo'), term('2', 'Ewondo'), term('3', 'Bulu')]);
+        const attempts = [
+            attempt('2024-03-09', false, '1'),
+            attempt('2024-03-10', true, '1'),
+            attempt('2024-03-10', false, '2'),
+            attempt('2024-03-10', true, '3'),
+        ];
+
+        expect(getMastery(attempts, termsById, 'language')).toEqual([
+            { name: 'Ewondo', studied: 2, mastered: 1, percent: 50 },
+            { name: 'Bulu', studied: 1, mastered: 1, percent: 100 },
+        ]);
+    });
+
+    it('counts overdue cards as due today', () => {
+        const state = (dueAt: Date) => ({ cardId: '1', repetitions: 1, interval: 1, easeFactor: 2.5, dueAt: dueAt.toISOString() });
+        const upcoming = getUpcomingReviews(
+            [state(new Date(2024, 2, 1)), state(new Date(2024, 2, 10, 18)), state(new Date(2024, 2, 12, 9)), state(new Date(2024, 4, 1))],
+            3,
+            today
+        );
+
+        expect(upcoming.map(item => item.count)).toEqual([2, 0, 1]);
+    });
+});
@@ -0,0 +1,137 @@
+import { QuizSession } from "../models/quizModel";
+import { ReviewState } from "../models/reviewModel";
+import { Term } from "../models/termModel";
+
+export interface QuizAttempt {
+  cardId: string;
+  correct: boolean;
+  day: string;
+}
+
+export interface DailyActivity {
+  day: string;
+  reviewed: number;
+  correct: number;
+  // null les jours sans révision
+  accuracy: number | null;
+}
+
+export interface MasteryGroup {
+  name: string;
+  studied: number;
+  mastered: number;
+  percent: number;
+}
+
+export interface UpcomingReviews {
+  day: string;
+  count: number;
+}
+
+export type MasteryGrouping = "language" | "theme";
+
+// Jour calendaire local, au format YYYY-MM-DD
+export const toDayKey = (date: Date) => {
+  const month = `${date.getMonth() + 1}`.padStart(2, "0");
+  const day = `${date.getDate()}`.padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+const sessionTime = (session: QuizSession) => session.finishedAt ?? session.updatedAt;
+
+// Réponses dans l'ordre chronologique, datées du dernier enregistrement de leur session
+export const collectAttempts = (sessions: QuizSession[]): QuizAttempt[] =>
+  [...sessions]
+    .sort((a, b) => sessionTime(a) - sessionTime(b))
+    .flatMap((session) => {
+      const day = toDayKey(new Date(sessionTime(session)));
+      return session.answers.map((answer) => ({ cardId: answer.card._id, correct: answer.correct, day }));
+    });
+
+export const getDailyActivity = (attempts: QuizAttempt[], days: number, today: Date = new Date()) => {
+  const activity = new Map<string, DailyActivity>();
+  for (let offset = days - 1; offset >= 0; offset--) {
+    const day = toDayKey(addDays(today, -offset));
+    activity.set(day, { day, reviewed: 0, correct: 0, accuracy: null });
+  }
+  attempts.forEach((attempt) => {
+    const entry = activity.get(attempt.day);
+    if (entry) {
+      entry.reviewed += 1;
+      entry.correct += attempt.correct ? 1 : 0;
+    }
+  });
+  return Array.from(activity.values()).map((entry) => ({
+    ...entry,
+    accuracy: entry.reviewed ? Math.round((entry.correct / entry.reviewed) * 100) : null,
+  }));
+};
+
+// La série en cours tient encore si l'on n'a pas révisé aujourd'hui mais hier
+export const getStreaks = (attempts: QuizAttempt[], today: Date = new Date()) => {
+  const activeDays = new Set(attempts.map((attempt) => attempt.day));
+  const sortedDays = Array.from(activeDays).sort();
+
+  let best = 0;
+  let run = 0;
+  let previous: string | null = null;
+  sortedDays.forEach((day) => {
+    run = previous && toDayKey(addDays(new Date(`${previous}T12:00:00`), 1)) === day ? run + 1 : 1;
+    best = Math.max(best, run);
+    previous = day;
+  });
+
+  let current = 0;
+  let cursor = activeDays.has(toDayKey(today)) ? today : addDays(today, -1);
+  while (activeDays.has(toDayKey(cursor))) {
+    current += 1;
+    cursor = addDays(cursor, -1);
+  }
+  return { current, best };
+};
+
+// Une carte est maîtrisée quand sa dernière réponse était juste
+export const getMastery = (
+  attempts: QuizAttempt[],
+  termsById: Map<string, Term>,
+  grouping: MasteryGrouping
+): MasteryGroup[] => {
+  const lastResults = new Map<string, boolean>();
+  attempts.forEach((attempt) => lastResults.set(attempt.cardId, attempt.correct));
+
+  const groups = new Map<string, MasteryGroup>();
+  lastResults.forEach((correct, cardId) => {
+    const name = termsById.get(cardId)?.[grouping]?.name;
+    if (!name) return;
+    const group = groups.get(name) ?? { name, studied: 0, mastered: 0, percent: 0 };
+    group.studied += 1;
+    group.mastered += correct ? 1 : 0;
+    groups.set(name, group);
+  });
+  return Array.from(groups.values())
+    .map((group) => ({ ...group, percent: Math.round((group.mastered / group.studied) * 100) }))
+    .sort((a, b) => b.studied - a.studied || a.name.localeCompare(b.name));
+};
+
+// Les cartes en retard comptent pour aujourd'hui
+export const getUpcomingReviews = (states: ReviewState[], days: number, now: Date = new Date()) => {
+  const upcoming = Array.from({ length: days }, (_, offset) => ({
+    day: toDayKey(addDays(now, offset)),
+    count: 0,
+  }));
+  const today = upcoming[0].day;
+  states.forEach((state) => {
+    const due = toDayKey(new Date(state.dueAt));
+    const entry = upcoming.find((item) => item.day === (due < today ? today : due));
+    if (entry) {
+      entry.count += 1;
+    }
+  });
+  return upcoming;
+};
@@ -0,0 +1,51 @@
+import {
+    DEFAULT_MODERATION_FILTERS,
+    getModerationFacets,
+    getModerationQueue,
+    parseModerationFilters,
+    serializeModerationFilters,
+} from './moderationQueue';
+import { buildTerm } from '../testing/termFixtures';
+
+const now = new Date('2024-03-31T00:00:00Z').getTime();
+const terms = [
+    buildTerm('Ndá', { author: 'alice', createdAt: '2024-03-30T12:00:00Z' }),
+    buildTerm('Mbolo', { author: 'bob', createdAt: '2024-03-01T00:00:00Z', language: { _id: 'l2', name: 'Fang', code: 'FAN', isApproved: false } }),
+    buildTerm('Akiba', { author: 'alice', createdAt: '2024-03-20T00:00:00Z', status: 'rejected' }),
+    buildTerm('Zamba', { author: 'carol' }),
+];
+
+describe('moderation queue', () => {
+    it('keeps pending terms oldest first by default, undated ones last', () => {
+        const queue = getModerationQueue(terms, DEFAULT_MODERATION_FILTERS, now);
+
+        expect(queue.map(item => item._id)).toEqual(['Mbolo', 'Ndá', 'Zamba']);
+    });
+
+    it('filters by language, submitter and age', () => {
+        const filters = { ...DEFAULT_MODERATION_FILTERS, status: 'all' as const };
+
+        expect(getModerationQueue(terms, { ...filters, language: 'Fang' }, now).map(item => item._id)).toEqual(['Mbolo']);
+        expect(getModerationQueue(terms, { ...filters, submitter: 'alice', sort: 'newest' }, now).map(item => item._id)).toEqual(['Ndá', 'Akiba']);
+        expect(getModerationQueue(terms, { ...filters, age: 'week', sort: 'term' }, now).map(item => item._id)).toEqual(['Akiba', 'Mbolo', 'Zamba']);
+    });
+
+    it('round-trips filters through the URL and ignores unknown values', () => {
+        const filters = { status: 'rejected' as const, language: 'Fang', age: 'month' as const, sort: 'term' as const };
+
+        expect(parseModerationFilters(serializeModerationFilters(filters))).toEqual({ ...filters, submitter: undefined });
+        expect(serializeModerationFilters(DEFAULT_MODERATION_FILTERS).toString()).toBe('');
+        expect(parseModerationFilters(new URLSearchParams('status=lost&sort=random'))).toEqual({
+            ...DEFAULT_MODERATION_FILTERS,
+            language: undefined,
+            submitter: undefined,
+        });
+    });
+
+    it('lists the languages and submitters present in the queue', () => {
+        expect(getModerationFacets(terms)).toEqual({
+            languages: ['Ewondo', 'Fang'],
+            submitters: ['alice', 'bob', 'carol'],
+        });
+    });
+});
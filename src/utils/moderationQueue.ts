@@ -0,0 +1,129 @@
+import { Term } from "../models/termModel";
+import {
+  ModerationAge,
+  ModerationFilters,
+  ModerationSort,
+  ModerationStatus,
+} from "../models/moderationModel";
+
+export const MODERATION_STATUSES: ModerationStatus[] = ["pending", "approved", "rejected", "all"];
+
+export const MODERATION_STATUS_LABELS: Record<ModerationStatus, string> = {
+  pending: "Pending",
+  approved: "Approved",
+  rejected: "Rejected",
+  all: "All statuses",
+};
+
+export const MODERATION_AGES: ModerationAge[] = ["any", "day", "week", "month"];
+
+export const MODERATION_AGE_LABELS: Record<ModerationAge, string> = {
+  any: "Any age",
+  day: "Older than a day",
+  week: "Older than a week",
+  month: "Older than a month",
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const MODERATION_AGE_MS: Record<ModerationAge, number> = {
+  any: 0,
+  day: DAY,
+  week: 7 * DAY,
+  month: 30 * DAY,
+};
+
+export const MODERATION_SORTS: ModerationSort[] = ["oldest", "newest", "term", "language"];
+
+export const MODERATION_SORT_LABELS: Record<ModerationSort, string> = {
+  oldest: "Oldest first",
+  newest: "Newest first",
+  term: "Term (A–Z)",
+  language: "Language",
+};
+
+// La file traite d'abord les soumissions les plus anciennes
+export const DEFAULT_MODERATION_FILTERS: ModerationFilters = {
+  status: "pending",
+  age: "any",
+  sort: "oldest",
+};
+
+const parseOption = <T extends string>(value: string | null, options: T[], fallback: T): T =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+export const parseModerationFilters = (params: URLSearchParams): ModerationFilters => ({
+  status: parseOption(params.get("status"), MODERATION_STATUSES, DEFAULT_MODERATION_FILTERS.status),
+  language: params.get("language") || undefined,
+  submitter: params.get("submitter") || undefined,
+  age: parseOption(params.get("age"), MODERATION_AGES, DEFAULT_MODERATION_FILTERS.age),
+  sort: parseOption(params.get("sort"), MODERATION_SORTS, DEFAULT_MODERATION_FILTERS.sort),
+});
+
+// Avec les filtres par défaut, la file garde l'URL nue du lien de navigation
+export const serializeModerationFilters = (filters: ModerationFilters): URLSearchParams => {
+  const params = new URLSearchParams();
+  if (filters.status !== DEFAULT_MODERATION_FILTERS.status) params.set("status", filters.status);
+  if (filters.language) params.set("language", filters.language);
+  if (filters.submitter) params.set("submitter", filters.submitter);
+  if (filters.age !== DEFAULT_MODERATION_FILTERS.age) params.set("age", filters.age);
+  if (filters.sort !== DEFAULT_MODERATION_FILTERS.sort) params.set("sort", filters.sort);
+  return params;
+};
+
+const getSubmittedAt = (term: Term) => (term.createdAt ? new Date(term.createdAt).getTime() : NaN);
+
+// Un terme sans date de soumission ne peut pas être exclu par l'ancienneté
+const isOlderThan = (term: Term, age: ModerationAge, now: number) => {
+  const submittedAt = getSubmittedAt(term);
+  return age === "any" || Number.isNaN(submittedAt) || now - submittedAt >= MODERATION_AGE_MS[age];
+};
+
+export const filterModerationQueue = (
+  terms: Term[],
+  filters: ModerationFilters,
+  now: number = Date.now()
+) =>
+  terms.filter(
+    (term) =>
+      (filters.status === "all" || term.status === filters.status) &&
+      (!filters.language || term.language?.name === filters.language) &&
+      (!filters.submitter || term.author === filters.submitter) &&
+      isOlderThan(term, filters.age, now)
+  );
+
+// Les termes sans date restent en fin de file, quel que soit le sens du tri
+const compareDates = (a: Term, b: Term, direction: 1 | -1) => {
+  const first = getSubmittedAt(a);
+  const second = getSubmittedAt(b);
+  if (Number.isNaN(first) || Number.isNaN(second)) {
+    return Number.isNaN(first) ? (Number.isNaN(second) ? 0 : 1) : -1;
+  }
+  return (first - second) * direction;
+};
+
+export const sortModerationQueue = (terms: Term[], sort: ModerationSort) =>
+  [...terms].sort((a, b) => {
+    switch (sort) {
+      case "newest":
+        return compareDates(a, b, -1);
+      case "term":
+        return a.term.localeCompare(b.term);
+      case "language":
+        return (a.language?.name ?? "").localeCompare(b.language?.name ?? "") || compareDates(a, b, 1);
+      default:
+        return compareDates(a, b, 1);
+    }
+  });
+
+export const getModerationQueue = (terms: Term[], filters: ModerationFilters, now?: number) =>
+  sortModerationQueue(filterModerationQueue(terms, filters, now), filters.sort);
+
+const uniqueSorted = (values: Array<string | undefined>) =>
+  Array.from(new Set(values.filter((value): value is string => !!value))).sort((a, b) => a.localeCompare(b));
+
+// Options des filtres, tirées des termes chargés pour inclure les langues non approuvées
+export const getModerationFacets = (terms: Term[]) => ({
+  languages: uniqueSorted(terms.map((term) => term.language?.name)),
+  submitters: uniqueSorted(terms.map((term) => term.author)),
+});
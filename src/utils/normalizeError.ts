@@ -0,0 +1,42 @@
+import { isAxiosError } from "axios";
+import { AppError, AppErrorKind, ErrorResponse } from "./types";
+
+const DEFAULT_MESSAGES: Record<AppErrorKind, string> = {
+  unauthorized: "Your session has expired, please log in again",
+  forbidden: "Access denied: You do not have the right permissions",
+  "not-found": "The requested resource was not found",
+  validation: "The submitted data is invalid",
+  network: "The server could not be reached, check your connection",
+  server: "The server encountered an error, please try again later",
+  unknown: "An unexpected error occurred",
+};
+
+const kindFromStatus = (status: number): AppErrorKind => {
+  if (status === 401) return "unauthorized";
+  if (status === 403) return "forbidden";
+  if (status === 404) return "not-found";
+  if (status === 400 || status === 409 || status === 422) return "validation";
+  if (status >= 500) return "server";
+  return "unknown";
+};
+
+export const normalizeError = (error: unknown): AppError => {
+  if (isAxiosError<ErrorResponse>(error)) {
+    if (!error.response) {
+      return { kind: "network", message: DEFAULT_MESSAGES.network };
+    }
+    const { status, data } = error.response;
+    const kind = kindFromStatus(status);
+    // Le message du serveur est plus précis, sauf pour les refus d'accès
+    const message = kind === "forbidden"
+      ? DEFAULT_MESSAGES.forbidden
+      : data?.message || DEFAULT_MESSAGES[kind];
+    return { kind, message, status };
+  }
+
+  if (error instanceof Error && error.message) {
+    return { kind: "unknown", message: error.message };
+  }
+
+  return { kind: "unknown", message: DEFAULT_MESSAGES.unknown };
+};
@@ -0,0 +1,24 @@
+import { clampPage, getPageWindow, getTotalPages } from './pagination';
+
+describe('pagination helpers', () => {
+    it('computes the page count from the total number of items', () => {
+        expect(getTotalPages(0, 10)).toBe(1);
+        expect(getTotalPages(10, 10)).toBe(1);
+        expect(getTotalPages(11, 10)).toBe(2);
+    });
+
+    it('keeps a requested page inside the available range', () => {
+        expect(clampPage(0, 5)).toBe(1);
+        expect(clampPage(9, 5)).toBe(5);
+        expect(clampPage(3, 5)).toBe(3);
+    });
+
+    it('lists every page when there are only a few', () => {
+        expect(getPageWindow(2, 4)).toEqual([1, 2, 3, 4]);
+    });
+
+    it('collapses distant pages into ellipses', () => {
+        expect(getPageWindow(10, 20)).toEqual([1, 'ellipsis', 9, 10, 11, 'ellipsis', 20]);
+        expect(getPageWindow(3, 20)).toEqual([1, 2, 3, 4, 'ellipsis', 20]);
+    });
+});
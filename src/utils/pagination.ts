@@ -0,0 +1,35 @@
+export const PAGE_SIZE_OPTIONS = [10, 20, 50];
+
+export type PageWindowItem = number | "ellipsis";
+
+export const getTotalPages = (totalItems: number, pageSize: number) => {
+  return Math.max(1, Math.ceil(totalItems / pageSize));
+};
+
+export const clampPage = (page: number, totalPages: number) => {
+  return Math.min(Math.max(1, Math.floor(page)), Math.max(1, totalPages));
+};
+
+// Première et dernière pages, plus quelques pages autour de la page courante
+export const getPageWindow = (
+  currentPage: number,
+  totalPages: number,
+  siblings: number = 1
+): PageWindowItem[] => {
+  const pages = new Set<number>([1, totalPages]);
+  for (let page = currentPage - siblings; page <= currentPage + siblings; page++) {
+    if (page >= 1 && page <= totalPages) {
+      pages.add(page);
+    }
+  }
+
+  const sorted = Array.from(pages).sort((a, b) => a - b);
+  return sorted.flatMap((page, index): PageWindowItem[] => {
+    const previous = sorted[index - 1];
+    if (previous === undefined || page - previous === 1) {
+      return [page];
+    }
+    // Un seul numéro manquant vaut mieux qu'une ellipse
+    return page - previous === 2 ? [page - 1, page] : ["ellipsis", page];
+  });
+};
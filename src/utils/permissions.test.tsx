@@ -0,0 +1,62 @@
+import React from 'react';
+import { render, screen } from '@testing-library/react';
+import { AuthContext, AuthContextType } from '../contexts/authContext';
+import Can from '../components/Can';
+import { hasCapability, rolesWithCapability, ROLE_CAPABILITIES } from './permissions';
+
+const renderAs = (role: string | null, ui: React.ReactElement) => {
+    const value: AuthContextType = {
+        user: role ? { _id: '1', username: 'alice', token: 'token', role } : null,
+        loading: false,
+        setUser: jest.fn(),
+        login: jest.fn(),
+        logout: jest.fn(),
+    };
+    return render(<AuthContext.Provider value={value}>{ui}</AuthContext.Provider>);
+};
+
+describe('permissions', () => {
+    it('gives each role the capabilities of the roles below it', () => {
+        expect(ROLE_CAPABILITIES.moderator).toEqual(expect.arrayContaining(ROLE_CAPABILITIES.user));
+        expect(ROLE_CAPABILITIES.admin).toEqual(expect.arrayContaining(ROLE_CAPABILITIES.moderator));
+        expect(hasCapability('user', 'submit-term')).toBe(true);
+        expect(hasCapability('user', 'approve-term')).toBe(false);
+        expect(hasCapability('moderator', 'manage-terms')).toBe(true);
+        expect(hasCapability('moderator', 'manage-users')).toBe(false);
+        expect(hasCapability('admin', 'promote-user')).toBe(true);
+    });
+
+    it('refuses unknown roles, including inherited object keys', () => {
+        expect(hasCapability(undefined, 'take-quiz')).toBe(false);
+        expect(hasCapability('guest', 'take-quiz')).toBe(false);
+        expect(hasCapability('constructor', 'take-quiz')).toBe(false);
+        expect(hasCapability('toString', 'take-quiz')).toBe(false);
+    });
+
+    it('lists the roles that hold a capability', () => {
+        expect(rolesWithCapability('take-quiz')).toEqual(['user', 'moderator', 'admin']);
+        expect(rolesWithCapability('approve-term')).toEqual(['moderator', 'admin']);
+        expect(rolesWithCapability('ban-user')).toEqual(['admin']);
+    });
+
+    it('renders <Can> children only for allowed users', () => {
+        const ui = <Can do="approve-term" fallback={<span>Forbidden</span>}><span>Approve</span></Can>;
+
+        const { unmount } = renderAs('moderator', ui);
+        expect(screen.getByText('Approve')).toBeInTheDocument();
+        unmount();
+
+        renderAs('user', ui);
+        expect(screen.queryByText('Approve')).not.toBeInTheDocument();
+        expect(screen.getByText('Forbidden')).toBeInTheDocument();
+    });
+
+    it('renders nothing for a signed-out visitor or an unknown role', () => {
+        const { container, unmount } = renderAs(null, <Can do="take-quiz"><span>Quiz</span></Can>);
+        expect(container).toBeEmptyDOMElement();
+        unmount();
+
+        renderAs('constructor', <Can do="take-quiz"><span>Quiz</span></Can>);
+        expect(screen.queryByText('Quiz')).not.toBeInTheDocument();
+    });
+});
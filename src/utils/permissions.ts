@@ -0,0 +1,65 @@
+export type Role = "user" | "moderator" | "admin";
+
+export type Capability =
+  | "submit-term"
+  | "take-quiz"
+  | "manage-terms"
+  | "approve-term"
+  | "reject-term"
+  | "view-stats"
+  | "view-role-stats"
+  | "manage-users"
+  | "ban-user"
+  | "promote-user";
+
+const USER_CAPABILITIES: Capability[] = ["submit-term", "take-quiz"];
+
+const MODERATOR_CAPABILITIES: Capability[] = [
+  ...USER_CAPABILITIES,
+  "manage-terms",
+  "approve-term",
+  "reject-term",
+];
+
+const ADMIN_CAPABILITIES: Capability[] = [
+  ...MODERATOR_CAPABILITIES,
+  "view-stats",
+  "view-role-stats",
+  "manage-users",
+  "ban-user",
+  "promote-user",
+];
+
+export const ROLE_CAPABILITIES: Record<Role, Capability[]> = {
+  user: USER_CAPABILITIES,
+  moderator: MODERATOR_CAPABILITIES,
+  admin: ADMIN_CAPABILITIES,
+};
+
+export const CAPABILITY_LABELS: Record<Capability, string> = {
+  "submit-term": "Submit new terms",
+  "take-quiz": "Take quizzes",
+  "manage-terms": "Manage terms",
+  "approve-term": "Approve terms",
+  "reject-term": "Reject terms",
+  "view-stats": "View statistics",
+  "view-role-stats": "View role statistics",
+  "manage-users": "Manage users",
+  "ban-user": "Ban users",
+  "promote-user": "Promote users",
+};
+
+// "in" accepterait aussi les clés héritées ("constructor", "toString"...)
+export const hasCapability = (role: string | undefined, capability: Capability): boolean => {
+  if (!role || !Object.prototype.hasOwnProperty.call(ROLE_CAPABILITIES, role)) {
+    return false;
+  }
+  return ROLE_CAPABILITIES[role as Role].includes(capability);
+};
+
+// Rôles qui disposent d'une capacité, pour expliquer à l'utilisateur ce qui lui manque
+export const rolesWithCapability = (capability: Capability): Role[] => {
+  return (Object.keys(ROLE_CAPABILITIES) as Role[]).filter((role) =>
+    ROLE_CAPABILITIES[role].includes(capability)
+  );
+};
@@ -0,0 +1,61 @@
+import {
+    DEFAULT_QUIZ_SETTINGS,
+    formatDuration,
+    getQuizScore,
+    isAnswerCorrect,
+    parseQuizSettings,
+    pickDistractors,
+    serializeQuizSettings,
+} from './quiz';
+
+const card = { _id: '1', term: 'ngon', translation: 'bon' };
+
+describe('quiz helpers', () => {
+    it('accepts answers regardless of case, accents and small typos', () => {
+        expect(isAnswerCorrect('  ÉCOLE ', 'école')).toBe(true);
+        expect(isAnswerCorrect('bibliotheque', 'Bibliothèque')).toBe(true);
+        expect(isAnswerCorrect('bibliotehque', 'bibliothèque')).toBe(true);
+        expect(isAnswerCorrect('foyer', 'maison, foyer')).toBe(true);
+        expect(isAnswerCorrect('chat', 'chien')).toBe(false);
+        expect(isAnswerCorrect('', 'chien')).toBe(false);
+    });
+
+    it('picks unique distractors that differ from the answer', () => {
+        const distractors = pickDistractors('Maison', ['maison', 'école', 'Ecole', 'rue', 'ville'], 3, () => 0);
+
+        expect(distractors).toHaveLength(3);
+        expect(distractors).not.toContain('maison');
+        expect(distractors.filter(choice => choice.toLowerCase().endsWith('cole'))).toHaveLength(1);
+    });
+
+    it('computes the score and formats the time spent', () => {
+        const answers = [
+            { card, given: 'bon', correct: true },
+            { card, given: 'mauvais', correct: false },
+            { card, given: 'bon', correct: true },
+        ];
+
+        expect(getQuizScore(answers)).toEqual({ correct: 2, total: 3, percent: 67 });
+        expect(formatDuration(125000)).toBe('2:05');
+    });
+
+    it('round-trips quiz settings through the URL and falls back to defaults', () => {
+        const settings = {
+            ...DEFAULT_QUIZ_SETTINGS,
+            numberOfQuestions: 20,
+            source: 'bookmarks' as const,
+            mode: 'typed' as const,
+            language: 'Ewondo',
+        };
+        const search = serializeQuizSettings(settings);
+
+        expect(search).toBe('questions=20&source=bookmarks&mode=typed&language=Ewondo');
+        expect(parseQuizSettings(new URLSearchParams(search))).toEqual({ ...settings, theme: undefined, category: undefined });
+        expect(parseQuizSettings(new URLSearchParams('source=unknown&mode=oops'))).toEqual({
+            ...DEFAULT_QUIZ_SETTINGS,
+            category: undefined,
+            theme: undefined,
+            language: undefined,
+        });
+    });
+});
@@ -0,0 +1,134 @@
+import { Flashcard } from "../models/termModel";
+import {
+  QuizAnswer,
+  QuizDirection,
+  QuizMode,
+  QuizScope,
+  QuizSettings,
+  QuizSource,
+} from "../models/quizModel";
+import { editDistance, getTolerance, normalizeQuery } from "./search";
+
+export const QUIZ_MODES: QuizMode[] = ["flashcards", "multipleChoice", "typed"];
+
+export const QUIZ_MODE_LABELS: Record<QuizMode, string> = {
+  flashcards: "Flashcards",
+  multipleChoice: "Multiple choice",
+  typed: "Typed answer",
+};
+
+// "due" a son propre bouton dans les paramètres du quiz
+export const QUIZ_SOURCES: QuizSource[] = ["all", "bookmarks", "contributions", "missed"];
+
+export const QUIZ_SOURCE_LABELS: Record<QuizSource, string> = {
+  all: "All approved terms",
+  bookmarks: "Only my bookmarks",
+  contributions: "Only terms I contributed",
+  missed: "Terms I missed last time",
+  due: "Cards due for review",
+};
+
+export const CHOICES_PER_QUESTION = 4;
+
+export const DEFAULT_QUIZ_SETTINGS: QuizSettings = {
+  numberOfQuestions: 10,
+  source: "all",
+  mode: "flashcards",
+  direction: "forward",
+};
+
+export const parseQuizMode = (value: string | null): QuizMode =>
+  QUIZ_MODES.includes(value as QuizMode) ? (value as QuizMode) : "flashcards";
+
+export const parseQuizDirection = (value: string | null): QuizDirection =>
+  value === "reverse" ? "reverse" : "forward";
+
+const parseQuizSource = (value: string | null): QuizSource =>
+  value === "due" || QUIZ_SOURCES.includes(value as QuizSource) ? (value as QuizSource) : "all";
+
+export const parseQuizSettings = (params: URLSearchParams): QuizSettings => ({
+  numberOfQuestions: Number(params.get("questions")) || DEFAULT_QUIZ_SETTINGS.numberOfQuestions,
+  source: parseQuizSource(params.get("source")),
+  mode: parseQuizMode(params.get("mode")),
+  direction: parseQuizDirection(params.get("direction")),
+  category: params.get("category") || undefined,
+  theme: params.get("theme") || undefined,
+  language: params.get("language") || undefined,
+});
+
+// Seul le nombre de questions est toujours écrit ; parseQuizSettings retrouve les autres valeurs par défaut
+export const serializeQuizSettings = (settings: QuizSettings) => {
+  const params = new URLSearchParams();
+  params.set("questions", String(settings.numberOfQuestions));
+  if (settings.source !== DEFAULT_QUIZ_SETTINGS.source) params.set("source", settings.source);
+  if (settings.mode !== DEFAULT_QUIZ_SETTINGS.mode) params.set("mode", settings.mode);
+  if (settings.direction !== DEFAULT_QUIZ_SETTINGS.direction) params.set("direction", settings.direction);
+  if (settings.category) params.set("category", settings.category);
+  if (settings.theme) params.set("theme", settings.theme);
+  if (settings.language) params.set("language", settings.language);
+  return params.toString();
+};
+
+export const hasQuizScope = (scope: QuizScope) => !!(scope.category || scope.theme || scope.language);
+
+export const getPrompt = (card: Flashcard, direction: QuizDirection) =>
+  direction === "reverse" ? card.translation : card.term;
+
+export const getExpectedAnswer = (card: Flashcard, direction: QuizDirection) =>
+  direction === "reverse" ? card.term : card.translation;
+
+// Une traduction peut proposer plusieurs variantes : "maison, foyer" ou "maison / foyer"
+const getAcceptedAnswers = (expected: string) =>
+  [expected, ...expected.split(/[,;/]/)].map(normalizeQuery).filter(Boolean);
+
+// Insensible à la casse et aux accents, avec la même tolérance aux fautes que la recherche
+export const isAnswerCorrect = (given: string, expected: string) => {
+  const answer = normalizeQuery(given);
+  if (!answer) {
+    return false;
+  }
+  return getAcceptedAnswers(expected).some((accepted) => {
+    const tolerance = getTolerance(accepted);
+    return editDistance(answer, accepted, tolerance) <= tolerance;
+  });
+};
+
+export const shuffle = <T>(items: T[], random: () => number = Math.random) => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+export const pickDistractors = (
+  answer: string,
+  candidates: string[],
+  count: number,
+  random: () => number = Math.random
+) => {
+  const seen = new Set([normalizeQuery(answer)]);
+  const unique = candidates.filter((candidate) => {
+    const key = normalizeQuery(candidate);
+    if (!key || seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+  return shuffle(unique, random).slice(0, count);
+};
+
+export const getQuizScore = (answers: QuizAnswer[]) => {
+  const correct = answers.filter((answer) => answer.correct).length;
+  const total = answers.length;
+  return { correct, total, percent: total ? Math.round((correct / total) * 100) : 0 };
+};
+
+export const formatDuration = (milliseconds: number) => {
+  const totalSeconds = Math.max(0, Math.round(milliseconds / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`;
+};
@@ -0,0 +1,41 @@
+import { QuizPreset, QuizSettings } from "../models/quizModel";
+
+// Préréglages enregistrés dans le navigateur, par utilisateur
+const storageKey = (userId?: string) => `quizPresets:${userId ?? "anonymous"}`;
+
+export const getQuizPresets = (userId?: string): QuizPreset[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(userId)) ?? "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveQuizPresets = (presets: QuizPreset[], userId?: string) => {
+  localStorage.setItem(storageKey(userId), JSON.stringify(presets));
+  return presets;
+};
+
+// Un préréglage du même nom est remplacé
+export const saveQuizPreset = (name: string, settings: QuizSettings, userId?: string) => {
+  const trimmed = name.trim();
+  const presets = getQuizPresets(userId);
+  const existing = presets.find((preset) => preset.name.toLowerCase() === trimmed.toLowerCase());
+  const preset: QuizPreset = {
+    id: existing?.id ?? `${Date.now()}`,
+    name: trimmed,
+    settings,
+  };
+  return saveQuizPresets(
+    [preset, ...presets.filter((item) => item.id !== preset.id)],
+    userId
+  );
+};
+
+export const deleteQuizPreset = (id: string, userId?: string) => {
+  return saveQuizPresets(
+    getQuizPresets(userId).filter((preset) => preset.id !== id),
+    userId
+  );
+};
@@ -0,0 +1,30 @@
+const MAX_RECENT_SEARCHES = 5;
+
+// Une liste par utilisateur pour ne pas mélanger les recherches sur un poste partagé
+const storageKey = (userId?: string) => `recentSearches:${userId ?? "anonymous"}`;
+
+export const getRecentSearches = (userId?: string): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(userId)) ?? "[]");
+    return Array.isArray(stored) ? stored.filter((item) => typeof item === "string") : [];
+  } catch {
+    return [];
+  }
+};
+
+export const addRecentSearch = (query: string, userId?: string): string[] => {
+  const trimmed = query.trim();
+  if (!trimmed) {
+    return getRecentSearches(userId);
+  }
+  const searches = [
+    trimmed,
+    ...getRecentSearches(userId).filter((item) => item.toLowerCase() !== trimmed.toLowerCase()),
+  ].slice(0, MAX_RECENT_SEARCHES);
+  localStorage.setItem(storageKey(userId), JSON.stringify(searches));
+  return searches;
+};
+
+export const clearRecentSearches = (userId?: string) => {
+  localStorage.removeItem(storageKey(userId));
+};
@@ -0,0 +1,45 @@
+// Routes internes vers lesquelles on accepte de renvoyer l'utilisateur après connexion
+const SAFE_REDIRECT_PREFIXES = [
+  "/terms",
+  "/new-term",
+  "/import-terms",
+  "/profile",
+  "/update-profile",
+  "/dashboard",
+  "/users",
+  "/moderation",
+];
+
+export const REDIRECT_PARAM = "redirect";
+
+export const buildLoginPath = (pathname: string, search: string = "") => {
+  return `/login?${REDIRECT_PARAM}=${encodeURIComponent(`${pathname}${search}`)}`;
+};
+
+export const getSafeRedirect = (redirect: string | null, fallback: string = "/") => {
+  if (!redirect) {
+    return fallback;
+  }
+
+  // Refuse les URLs absolues ("https://..."), relatives au protocole ("//evil.com") et les "\"
+  if (!redirect.startsWith("/") || redirect.startsWith("//") || redirect.includes("\\")) {
+    return fallback;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(redirect, window.location.origin);
+  } catch {
+    return fallback;
+  }
+
+  if (url.origin !== window.location.origin) {
+    return fallback;
+  }
+
+  const isSafePath = url.pathname === "/" || SAFE_REDIRECT_PREFIXES.some(
+    (prefix) => url.pathname === prefix || url.pathname.startsWith(`${prefix}/`)
+  );
+
+  return isSafePath ? `${url.pathname}${url.search}` : fallback;
+};
@@ -0,0 +1,41 @@
+// Motifs de rejet prêts à l'emploi, modifiables par chaque modérateur dans son navigateur
+export const DEFAULT_REJECTION_TEMPLATES = [
+  "Duplicate of an existing term.",
+  "The translation is incorrect.",
+  "The definition is unclear or incomplete.",
+  "The term is not in the selected language.",
+  "Inappropriate or offensive content.",
+];
+
+const storageKey = (userId?: string) => `rejectionTemplates:${userId ?? "anonymous"}`;
+
+export const getRejectionTemplates = (userId?: string): string[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(storageKey(userId)) ?? "null");
+    return Array.isArray(stored) ? stored : DEFAULT_REJECTION_TEMPLATES;
+  } catch {
+    return DEFAULT_REJECTION_TEMPLATES;
+  }
+};
+
+const saveRejectionTemplates = (templates: string[], userId?: string) => {
+  localStorage.setItem(storageKey(userId), JSON.stringify(templates));
+  return templates;
+};
+
+// Un motif déjà présent n'est pas dupliqué
+export const saveRejectionTemplate = (text: string, userId?: string) => {
+  const trimmed = text.trim();
+  const templates = getRejectionTemplates(userId);
+  return saveRejectionTemplates(
+    [...templates.filter((template) => template !== trimmed), trimmed],
+    userId
+  );
+};
+
+export const deleteRejectionTemplate = (text: string, userId?: string) => {
+  return saveRejectionTemplates(
+    getRejectionTemplates(userId).filter((template) => template !== text),
+    userId
+  );
+};
@@ -0,0 +1,80 @@
+// Validation minimale des réponses de l'API : chaque schéma renvoie la liste des écarts trouvés
+export interface Schema<T> {
+  validate: (value: unknown, path?: string) => string[];
+  // Champ fantôme qui porte le type décrit par le schéma
+  readonly _type?: T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const describe = (value: unknown) =>
+  value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+
+const primitive = <T>(expected: string): Schema<T> => ({
+  validate: (value, path = "response") =>
+    typeof value === expected ? [] : [`${path}: expected ${expected}, got ${describe(value)}`],
+});
+
+export const string = () => primitive<string>("string");
+export const number = () => primitive<number>("number");
+export const boolean = () => primitive<boolean>("boolean");
+
+export const unknown = (): Schema<unknown> => ({
+  validate: () => [],
+});
+
+export const literal = <T extends string>(...values: T[]): Schema<T> => ({
+  validate: (value, path = "response") =>
+    values.includes(value as T)
+      ? []
+      : [`${path}: expected one of ${values.join(", ")}, got ${String(value)}`],
+});
+
+export const optional = <T>(schema: Schema<T>): Schema<T | undefined> => ({
+  validate: (value, path) => (value === undefined ? [] : schema.validate(value, path)),
+});
+
+export const nullable = <T>(schema: Schema<T>): Schema<T | null> => ({
+  validate: (value, path) => (value === null ? [] : schema.validate(value, path)),
+});
+
+export const array = <T>(schema: Schema<T>): Schema<T[]> => ({
+  validate: (value, path = "response") => {
+    if (!Array.isArray(value)) {
+      return [`${path}: expected array, got ${describe(value)}`];
+    }
+    return value.flatMap((item, index) => schema.validate(item, `${path}[${index}]`));
+  },
+});
+
+export const union = <A, B>(first: Schema<A>, second: Schema<B>): Schema<A | B> => ({
+  validate: (value, path = "response") => {
+    const firstIssues = first.validate(value, path);
+    if (firstIssues.length === 0) {
+      return [];
+    }
+    const secondIssues = second.validate(value, path);
+    return secondIssues.length === 0 ? [] : firstIssues;
+  },
+});
+
+type Shape = Record<string, Schema<unknown>>;
+
+export const object = <S extends Shape>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> => ({
+  validate: (value, path = "response") => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return [`${path}: expected object, got ${describe(value)}`];
+    }
+    const record = value as Record<string, unknown>;
+    return Object.keys(shape).flatMap((key) => shape[key].validate(record[key], `${path}.${key}`));
+  },
+});
+
+export const record = <T>(schema: Schema<T>): Schema<Record<string, T>> => ({
+  validate: (value, path = "response") => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return [`${path}: expected object, got ${describe(value)}`];
+    }
+    return Object.entries(value).flatMap(([key, item]) => schema.validate(item, `${path}.${key}`));
+  },
+});
@@ -0,0 +1,41 @@
+import { editDistance, normalizeText, searchTerms } from './search';
+import { Term } from '../models/termModel';
+
+const makeTerm = (id: string, term: string, translation: string, definition: string) =>
+    ({ _id: id, term, translation, definition } as Term);
+
+const terms = [
+    makeTerm('1', 'Café', 'Coffee', 'Boisson chaude'),
+    makeTerm('2', 'Cafetière', 'Coffee maker', 'Appareil pour préparer le café'),
+    makeTerm('3', 'Maison', 'House', 'Bâtiment où l\'on habite'),
+    makeTerm('4', 'Chocolat', 'Chocolate', 'Aliment à base de cacao'),
+];
+
+describe('search', () => {
+    it('ignores accents and case', () => {
+        expect(normalizeText('Éléphant').value).toBe('elephant');
+        expect(searchTerms(terms, 'CAFE')[0].term._id).toBe('1');
+    });
+
+    it('ranks exact, then prefix, then definition matches', () => {
+        expect(searchTerms(terms, 'cafe').map(result => result.term._id)).toEqual(['1', '2']);
+    });
+
+    it('tolerates small typos', () => {
+        expect(editDistance('chocolta', 'chocolat')).toBe(2);
+        expect(searchTerms(terms, 'chocolta').map(result => result.term._id)).toEqual(['4']);
+        expect(searchTerms(terms, 'mason').map(result => result.term._id)).toEqual(['3']);
+    });
+
+    it('also searches the translation', () => {
+        expect(searchTerms(terms, 'house').map(result => result.term._id)).toEqual(['3']);
+    });
+
+    it('returns highlight ranges in the original text', () => {
+        const [result] = searchTerms(terms, 'cafe');
+
+        expect(result.highlights.term).toEqual([[0, 4]]);
+        const definitionResult = searchTerms(terms, 'prepar')[0];
+        expect(definitionResult.highlights.definition).toEqual([[14, 20]]);
+    });
+});
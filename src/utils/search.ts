@@ -0,0 +1,189 @@
+import { Term } from "../models/termModel";
+
+export type SearchField = "term" | "translation" | "definition";
+
+// [début, fin[ dans le texte d'origine
+export type HighlightRange = [number, number];
+
+export type TermHighlights = Partial<Record<SearchField, HighlightRange[]>>;
+
+export interface SearchResult {
+  term: Term;
+  score: number;
+  highlights: TermHighlights;
+}
+
+// Paliers de classement : exact > préfixe > sous-chaîne > approché > définition
+const SCORES = {
+  exact: 100,
+  prefix: 80,
+  substring: 60,
+  fuzzy: 40,
+  definition: 20,
+  definitionFuzzy: 10,
+};
+
+interface NormalizedText {
+  value: string;
+  // Position dans le texte d'origine de chaque caractère normalisé
+  indexMap: number[];
+}
+
+const stripDiacritics = (char: string) =>
+  char.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase();
+
+export const normalizeText = (text: string): NormalizedText => {
+  let value = "";
+  const indexMap: number[] = [];
+  Array.from(text).reduce((offset, char) => {
+    const normalized = stripDiacritics(char);
+    for (let i = 0; i < normalized.length; i++) {
+      indexMap.push(offset);
+    }
+    value += normalized;
+    return offset + char.length;
+  }, 0);
+  return { value, indexMap };
+};
+
+export const normalizeQuery = (query: string) =>
+  normalizeText(query.trim().replace(/\s+/g, " ")).value;
+
+const toOriginalRange = (text: NormalizedText, start: number, end: number): HighlightRange => {
+  const originalStart = text.indexMap[start];
+  const lastIndex = text.indexMap[end - 1];
+  return [originalStart, lastIndex + 1];
+};
+
+export const editDistance = (a: string, b: string, max: number = Infinity) => {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    // Toute la ligne dépasse déjà la tolérance : inutile de continuer
+    if (rowMin > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Les requêtes courtes doivent être exactes, les longues tolèrent deux fautes
+export const getTolerance = (query: string) => {
+  if (query.length < 4) return 0;
+  return query.length < 8 ? 1 : 2;
+};
+
+interface FieldMatch {
+  score: number;
+  ranges: HighlightRange[];
+}
+
+const findWords = (text: string) => {
+  const words: Array<{ word: string; start: number }> = [];
+  const pattern = /[^\s\-'’.,;:!?()]+/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    words.push({ word: match[0], start: match.index });
+  }
+  return words;
+};
+
+const matchFuzzy = (text: NormalizedText, query: string, baseScore: number): FieldMatch | null => {
+  const tolerance = getTolerance(query);
+  if (tolerance === 0) {
+    return null;
+  }
+
+  // On compare la requête au texte entier puis à chacun de ses mots
+  const candidates = [{ word: text.value, start: 0 }, ...findWords(text.value)];
+  let best: { distance: number; start: number; length: number } | null = null;
+  for (const { word, start } of candidates) {
+    const distance = editDistance(query, word, tolerance);
+    if (distance <= tolerance && (!best || distance < best.distance)) {
+      best = { distance, start, length: word.length };
+    }
+  }
+  if (!best || best.length === 0) {
+    return null;
+  }
+  return {
+    score: baseScore - best.distance,
+    ranges: [toOriginalRange(text, best.start, best.start + best.length)],
+  };
+};
+
+const matchTitle = (original: string, query: string): FieldMatch | null => {
+  const text = normalizeText(original);
+  if (text.value === query) {
+    return { score: SCORES.exact, ranges: [[0, original.length]] };
+  }
+  const index = text.value.indexOf(query);
+  if (index !== -1) {
+    return {
+      score: index === 0 ? SCORES.prefix : SCORES.substring,
+      ranges: [toOriginalRange(text, index, index + query.length)],
+    };
+  }
+  return matchFuzzy(text, query, SCORES.fuzzy);
+};
+
+const matchDefinition = (original: string, query: string): FieldMatch | null => {
+  const text = normalizeText(original);
+  const ranges: HighlightRange[] = [];
+  let index = text.value.indexOf(query);
+  while (index !== -1 && query.length > 0) {
+    ranges.push(toOriginalRange(text, index, index + query.length));
+    index = text.value.indexOf(query, index + query.length);
+  }
+  if (ranges.length > 0) {
+    return { score: SCORES.definition, ranges };
+  }
+  return matchFuzzy(text, query, SCORES.definitionFuzzy);
+};
+
+export const scoreTerm = (term: Term, query: string): SearchResult | null => {
+  const normalizedQuery = normalizeQuery(query);
+  if (!normalizedQuery) {
+    return { term, score: 0, highlights: {} };
+  }
+
+  const matches: Partial<Record<SearchField, FieldMatch | null>> = {
+    term: matchTitle(term.term, normalizedQuery),
+    translation: matchTitle(term.translation, normalizedQuery),
+    definition: matchDefinition(term.definition, normalizedQuery),
+  };
+
+  const highlights: TermHighlights = {};
+  let score = 0;
+  (Object.keys(matches) as SearchField[]).forEach((field) => {
+    const match = matches[field];
+    if (match) {
+      highlights[field] = match.ranges;
+      score = Math.max(score, match.score);
+    }
+  });
+  if (score === 0) {
+    return null;
+  }
+  // À score égal, une correspondance sur le terme passe devant la traduction
+  return { term, score: matches.term ? score + 0.5 : score, highlights };
+};
+
+export const isExactMatch = (result: SearchResult) => result.score >= SCORES.exact;
+
+export const searchTerms = (terms: Term[], query: string): SearchResult[] => {
+  return terms
+    .map((term) => scoreTerm(term, query))
+    .filter((result): result is SearchResult => result !== null)
+    .sort((a, b) => b.score - a.score || a.term.term.localeCompare(b.term.term));
+};
@@ -0,0 +1,33 @@
+import { createReviewState, isDue, scheduleReview } from './sm2';
+
+const now = new Date('2024-01-01T10:00:00Z');
+const daysLater = (state: { dueAt: string }) =>
+    Math.round((new Date(state.dueAt).getTime() - now.getTime()) / (24 * 60 * 60 * 1000));
+
+describe('SM-2 scheduler', () => {
+    it('grows the interval with each successful review', () => {
+        const first = scheduleReview(createReviewState('1', now), 'good', now);
+        const second = scheduleReview(first, 'good', now);
+        const third = scheduleReview(second, 'good', now);
+
+        expect([first.interval, second.interval, third.interval]).toEqual([1, 6, 15]);
+        expect(daysLater(third)).toBe(15);
+    });
+
+    it('resets a forgotten card and shows it again in the same session', () => {
+        const learned = scheduleReview(scheduleReview(createReviewState('1', now), 'good', now), 'good', now);
+        const forgotten = scheduleReview(learned, 'again', now);
+
+        expect(forgotten.repetitions).toBe(0);
+        expect(forgotten.easeFactor).toBeLessThan(learned.easeFactor);
+        expect(isDue(forgotten, new Date(now.getTime() + 11 * 60 * 1000))).toBe(true);
+    });
+
+    it('schedules easy cards further than hard ones', () => {
+        const state = scheduleReview(scheduleReview(createReviewState('1', now), 'good', now), 'good', now);
+
+        expect(scheduleReview(state, 'easy', now).interval).toBeGreaterThan(scheduleReview(state, 'good', now).interval);
+        expect(scheduleReview(state, 'hard', now).interval).toBeLessThan(scheduleReview(state, 'good', now).interval);
+        expect(scheduleReview(state, 'hard', now).easeFactor).toBeGreaterThanOrEqual(1.3);
+    });
+});
@@ -0,0 +1,83 @@
+// Planification SM-2 (SuperMemo 2) adaptée aux quatre boutons Again / Hard / Good / Easy
+import { ReviewGrade, ReviewState } from "../models/reviewModel";
+
+export const REVIEW_GRADES: ReviewGrade[] = ["again", "hard", "good", "easy"];
+
+export const REVIEW_GRADE_LABELS: Record<ReviewGrade, string> = {
+  again: "Again",
+  hard: "Hard",
+  good: "Good",
+  easy: "Easy",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Une carte oubliée revient dans la même séance
+const RELEARN_DELAY_MS = 10 * 60 * 1000;
+const MIN_EASE_FACTOR = 1.3;
+const INITIAL_EASE_FACTOR = 2.5;
+const HARD_INTERVAL_FACTOR = 1.2;
+const EASY_BONUS = 1.3;
+
+// Qualité de réponse SM-2 (0 à 5) associée à chaque bouton
+const GRADE_QUALITY: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 3,
+  good: 4,
+  easy: 5,
+};
+
+export const createReviewState = (cardId: string, now: Date = new Date()): ReviewState => ({
+  cardId,
+  repetitions: 0,
+  interval: 0,
+  easeFactor: INITIAL_EASE_FACTOR,
+  dueAt: now.toISOString(),
+});
+
+const nextEaseFactor = (easeFactor: number, quality: number) =>
+  Math.max(MIN_EASE_FACTOR, easeFactor + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+export const scheduleReview = (
+  state: ReviewState,
+  grade: ReviewGrade,
+  now: Date = new Date()
+): ReviewState => {
+  const quality = GRADE_QUALITY[grade];
+  const easeFactor = nextEaseFactor(state.easeFactor, quality);
+
+  if (grade === "again") {
+    return {
+      ...state,
+      repetitions: 0,
+      interval: 0,
+      easeFactor,
+      dueAt: new Date(now.getTime() + RELEARN_DELAY_MS).toISOString(),
+      lastReviewedAt: now.toISOString(),
+    };
+  }
+
+  const repetitions = state.repetitions + 1;
+  let interval: number;
+  if (repetitions === 1) {
+    interval = grade === "easy" ? 4 : 1;
+  } else if (repetitions === 2) {
+    interval = grade === "hard" ? 3 : 6;
+  } else if (grade === "hard") {
+    interval = state.interval * HARD_INTERVAL_FACTOR;
+  } else {
+    interval = state.interval * easeFactor * (grade === "easy" ? EASY_BONUS : 1);
+  }
+  interval = Math.max(1, Math.round(interval));
+
+  return {
+    ...state,
+    repetitions,
+    interval,
+    easeFactor,
+    dueAt: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+    lastReviewedAt: now.toISOString(),
+  };
+};
+
+export const isDue = (state: ReviewState, now: Date = new Date()) =>
+  new Date(state.dueAt).getTime() <= now.getTime();
@@ -0,0 +1,44 @@
+import { guessColumnMapping, parseImportFile, validateImportRows } from './termImport';
+
+const taxonomies = {
+    categories: ['Noun', 'Verb'],
+    themes: ['Food'],
+    languages: ['Français'],
+};
+
+describe('term import', () => {
+    it('guesses the column mapping from common header names', () => {
+        const source = parseImportFile('terms.csv', 'Terme;Traduction;Definition;Catégorie;Thème;Langue\nCafé;Coffee;Boisson;Noun;Food;Français');
+
+        expect(guessColumnMapping(source.columns)).toEqual({
+            term: 'Terme',
+            translation: 'Traduction',
+            definition: 'Definition',
+            grammaticalCategory: 'Catégorie',
+            theme: 'Thème',
+            language: 'Langue',
+        });
+    });
+
+    it('reads JSON arrays of terms', () => {
+        const source = parseImportFile('terms.json', JSON.stringify([{ term: 'Café', translation: 'Coffee' }]));
+
+        expect(source.columns).toEqual(['term', 'translation']);
+        expect(source.records).toEqual([{ term: 'Café', translation: 'Coffee' }]);
+    });
+
+    it('flags missing fields as errors and unknown taxonomies as warnings', () => {
+        const source = parseImportFile('terms.json', JSON.stringify([
+            { term: 'Café', translation: 'Coffee', definition: 'Boisson', grammaticalCategory: 'noun', theme: 'Drinks', language: 'francais' },
+            { term: '', translation: 'House', definition: 'Bâtiment', grammaticalCategory: 'Noun', theme: 'Food', language: 'Français' },
+        ]));
+
+        const [valid, invalid] = validateImportRows(source, guessColumnMapping(source.columns), taxonomies);
+
+        expect(valid.errors).toEqual([]);
+        expect(valid.data.grammaticalCategory).toBe('Noun');
+        expect(valid.data.language).toBe('Français');
+        expect(valid.warnings).toEqual(['Theme "Drinks" is not approved yet and will need moderation.']);
+        expect(invalid.errors).toEqual(['Term is missing.']);
+    });
+});
@@ -0,0 +1,140 @@
+import { TermInput } from "../models/termModel";
+import { parseCsv } from "./csv";
+import { normalizeText } from "./search";
+
+export type TermField = keyof TermInput;
+
+export const TERM_FIELDS: TermField[] = [
+  "term",
+  "translation",
+  "definition",
+  "grammaticalCategory",
+  "theme",
+  "language",
+];
+
+export const TERM_FIELD_LABELS: Record<TermField, string> = {
+  term: "Term",
+  translation: "Translation",
+  definition: "Definition",
+  grammaticalCategory: "Grammatical category",
+  theme: "Theme",
+  language: "Language",
+};
+
+// Noms de colonnes reconnus automatiquement (comparés sans accents ni casse)
+const COLUMN_ALIASES: Record<TermField, string[]> = {
+  term: ["term", "terme", "word", "mot"],
+  translation: ["translation", "traduction"],
+  definition: ["definition", "description"],
+  grammaticalCategory: ["grammaticalcategory", "grammatical category", "category", "categorie", "categorie grammaticale"],
+  theme: ["theme", "topic", "domaine"],
+  language: ["language", "langue", "lang"],
+};
+
+export type ColumnMapping = Record<TermField, string>;
+
+export interface ImportSource {
+  columns: string[];
+  records: Array<Record<string, string>>;
+}
+
+export interface Taxonomies {
+  categories: string[];
+  themes: string[];
+  languages: string[];
+}
+
+export interface ImportRow {
+  index: number;
+  data: TermInput;
+  errors: string[];
+  // Valeurs inconnues : le terme sera créé mais une approbation sera nécessaire
+  warnings: string[];
+}
+
+export const parseImportFile = (fileName: string, text: string): ImportSource => {
+  if (fileName.toLowerCase().endsWith(".json")) {
+    const parsed = JSON.parse(text);
+    const items: unknown[] = Array.isArray(parsed) ? parsed : parsed?.terms;
+    if (!Array.isArray(items)) {
+      throw new Error("The JSON file must contain an array of terms.");
+    }
+    const records = items
+      .filter((item): item is Record<string, unknown> => typeof item === "object" && item !== null)
+      .map((item) =>
+        Object.fromEntries(
+          Object.entries(item).map(([key, value]) => [key, value === null || value === undefined ? "" : String(value)])
+        )
+      );
+    const columns = Array.from(new Set(records.flatMap((record) => Object.keys(record))));
+    return { columns, records };
+  }
+
+  const [header, ...rows] = parseCsv(text);
+  if (!header) {
+    throw new Error("The CSV file is empty.");
+  }
+  const columns = header.map((column) => column.trim());
+  const records = rows.map((cells) =>
+    Object.fromEntries(columns.map((column, index) => [column, cells[index] ?? ""]))
+  );
+  return { columns, records };
+};
+
+export const guessColumnMapping = (columns: string[]): ColumnMapping => {
+  const mapping = {} as ColumnMapping;
+  TERM_FIELDS.forEach((field) => {
+    const match = columns.find((column) =>
+      COLUMN_ALIASES[field].includes(normalizeText(column.trim()).value.replace(/[_-]/g, " "))
+      || normalizeText(column).value === field.toLowerCase()
+    );
+    mapping[field] = match ?? "";
+  });
+  return mapping;
+};
+
+const findKnown = (value: string, known: string[]) => {
+  const normalized = normalizeText(value).value;
+  return known.find((item) => normalizeText(item).value === normalized);
+};
+
+export const validateImportRows = (
+  source: ImportSource,
+  mapping: ColumnMapping,
+  taxonomies: Taxonomies
+): ImportRow[] => {
+  return source.records.map((record, index) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+    const data = {} as TermInput;
+
+    TERM_FIELDS.forEach((field) => {
+      const value = mapping[field] ? (record[mapping[field]] ?? "").trim() : "";
+      data[field] = value;
+      if (!value) {
+        errors.push(`${TERM_FIELD_LABELS[field]} is missing.`);
+      }
+    });
+
+    const taxonomyChecks: Array<[TermField, string[]]> = [
+      ["grammaticalCategory", taxonomies.categories],
+      ["theme", taxonomies.themes],
+      ["language", taxonomies.languages],
+    ];
+    taxonomyChecks.forEach(([field, known]) => {
+      if (!data[field]) {
+        return;
+      }
+      const match = findKnown(data[field], known);
+      if (match) {
+        // On reprend l'orthographe exacte de la valeur approuvée
+        data[field] = match;
+      } else {
+        warnings.push(`${TERM_FIELD_LABELS[field]} "${data[field]}" is not approved yet and will need moderation.`);
+      }
+    });
+
+    return { index: index + 1, data, errors, warnings };
+  });
+};
@@ -0,0 +1,40 @@
+import { buildRevisionHistory } from './termRevisions';
+import { TermRevision } from '../models/termModel';
+
+const snapshot = { term: 'Ndá', translation: 'Maison', definition: 'Lieu', grammaticalCategory: 'Nom', theme: 'Habitat', language: 'Ewondo' };
+const revision = (id: string, createdAt: string, changes: Partial<typeof snapshot>, status: TermRevision['status'] = 'approved'): TermRevision => ({
+    _id: id,
+    termId: 't1',
+    author: 'alice',
+    createdAt,
+    status,
+    snapshot: { ...snapshot, ...changes },
+});
+
+describe('buildRevisionHistory', () => {
+    it('lists revisions newest first with the fields changed since the previous one', () => {
+        const history = buildRevisionHistory([
+            revision('r2', '2024-02-01T00:00:00Z', { definition: 'Lieu où l’on habite' }),
+            revision('r1', '2024-01-01T00:00:00Z', {}),
+            revision('r3', '2024-03-01T00:00:00Z', { definition: 'Lieu où l’on habite', theme: 'Famille', translation: 'Foyer' }),
+        ]);
+
+        expect(history.map(entry => entry.revision._id)).toEqual(['r3', 'r2', 'r1']);
+        expect(history[0].changedFields).toEqual(['translation', 'theme']);
+        expect(history[1].changedFields).toEqual(['definition']);
+        expect(history[2].previous).toBeUndefined();
+        expect(history[2].changedFields).toHaveLength(6);
+    });
+
+    it('compares with the last approved version, skipping rejected proposals', () => {
+        const history = buildRevisionHistory([
+            revision('r1', '2024-01-01T00:00:00Z', {}),
+            revision('r2', '2024-02-01T00:00:00Z', { translation: 'Foyer', theme: 'Famille' }, 'rejected'),
+            revision('r3', '2024-03-01T00:00:00Z', { definition: 'Lieu où l’on habite' }),
+        ]);
+
+        expect(history[0].previous).toEqual(snapshot);
+        expect(history[0].changedFields).toEqual(['definition']);
+        expect(history[1].changedFields).toEqual(['translation', 'theme']);
+    });
+});
@@ -0,0 +1,65 @@
+import { Term, TermRevision, TermSnapshot } from "../models/termModel";
+
+export const REVISION_FIELDS: (keyof TermSnapshot)[] = [
+  "term",
+  "translation",
+  "definition",
+  "grammaticalCategory",
+  "theme",
+  "language",
+];
+
+export const REVISION_FIELD_LABELS: Record<keyof TermSnapshot, string> = {
+  term: "Term",
+  translation: "Translation",
+  definition: "Definition",
+  grammaticalCategory: "Grammatical category",
+  theme: "Theme",
+  language: "Language",
+};
+
+// Champs comparés mot à mot ; la taxonomie se lit directement
+export const TEXT_DIFF_FIELDS: (keyof TermSnapshot)[] = ["term", "translation", "definition"];
+
+const EMPTY_SNAPSHOT: TermSnapshot = {
+  term: "",
+  translation: "",
+  definition: "",
+  grammaticalCategory: "",
+  theme: "",
+  language: "",
+};
+
+export const toTermSnapshot = (term: Term): TermSnapshot => ({
+  term: term.term,
+  translation: term.translation,
+  definition: term.definition,
+  grammaticalCategory: term.grammaticalCategory?.name ?? "",
+  theme: term.theme?.name ?? "",
+  language: term.language?.name ?? "",
+});
+
+export const getChangedFields = (previous: TermSnapshot | undefined, current: TermSnapshot) =>
+  REVISION_FIELDS.filter((field) => (previous ?? EMPTY_SNAPSHOT)[field] !== current[field]);
+
+export interface RevisionEntry {
+  revision: TermRevision;
+  previous?: TermSnapshot;
+  changedFields: (keyof TermSnapshot)[];
+}
+
+// Du plus récent au plus ancien, chaque version comparée à la dernière version approuvée :
+// une proposition rejetée ou en attente n'a jamais été en ligne
+export const buildRevisionHistory = (revisions: TermRevision[]): RevisionEntry[] => {
+  const chronological = [...revisions].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  let lastApproved: TermSnapshot | undefined;
+  return chronological
+    .map((revision) => {
+      const previous = lastApproved;
+      if (revision.status === "approved") {
+        lastApproved = revision.snapshot;
+      }
+      return { revision, previous, changedFields: getChangedFields(previous, revision.snapshot) };
+    })
+    .reverse();
+};
@@ -1,3 +1,22 @@
 export interface ErrorResponse {
   message: string;
 }
+
+export type AppErrorKind =
+  | "unauthorized"
+  | "forbidden"
+  | "not-found"
+  | "validation"
+  | "network"
+  | "server"
+  | "unknown";
+
+export interface AppError {
+  kind: AppErrorKind;
+  message: string;
+  status?: number;
+}
+
+export interface MessageResponse {
+  message: string;
+}
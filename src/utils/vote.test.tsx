@@ -0,0 +1,31 @@
+import { applyVoteTransition, getUserVote, nextVoteState } from './vote';
+import { Term } from '../models/termModel';
+
+const term = {
+    _id: '1',
+    upvotedBy: ['alice'],
+    downvotedBy: ['bob'],
+} as Term;
+
+describe('vote state machine', () => {
+    it('reads the current vote of a user from the term', () => {
+        expect(getUserVote(term, 'alice')).toBe('up');
+        expect(getUserVote(term, 'bob')).toBe('down');
+        expect(getUserVote(term, 'carol')).toBe('none');
+        expect(getUserVote({ ...term, userVote: 'downvote' }, 'alice')).toBe('down');
+    });
+
+    it('toggles a vote off when voting twice in the same direction', () => {
+        expect(nextVoteState('none', 'up')).toBe('up');
+        expect(nextVoteState('up', 'up')).toBe('none');
+        expect(nextVoteState('up', 'down')).toBe('down');
+    });
+
+    it('moves one vote from a side to the other when switching', () => {
+        const counts = { upvotes: 3, downvotes: 1 };
+
+        expect(applyVoteTransition(counts, 'none', 'up')).toEqual({ upvotes: 4, downvotes: 1 });
+        expect(applyVoteTransition(counts, 'down', 'up')).toEqual({ upvotes: 4, downvotes: 0 });
+        expect(applyVoteTransition(counts, 'up', 'none')).toEqual({ upvotes: 2, downvotes: 1 });
+    });
+});
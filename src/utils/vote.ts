@@ -0,0 +1,31 @@
+import { Term, VoteCounts, VoteState } from "../models/termModel";
+
+export type VoteAction = "up" | "down";
+
+export const getUserVote = (term: Term, userId: string): VoteState => {
+  if (term.userVote) {
+    return term.userVote === "upvote" ? "up" : "down";
+  }
+  if (term.upvotedBy.includes(userId)) {
+    return "up";
+  }
+  return term.downvotedBy.includes(userId) ? "down" : "none";
+};
+
+// Voter deux fois dans le même sens annule le vote, comme côté serveur
+export const nextVoteState = (current: VoteState, action: VoteAction): VoteState => {
+  return current === action ? "none" : action;
+};
+
+export const applyVoteTransition = (
+  counts: VoteCounts,
+  from: VoteState,
+  to: VoteState
+): VoteCounts => {
+  const delta = (state: VoteState, side: VoteAction) =>
+    (to === side ? 1 : 0) - (state === side ? 1 : 0);
+  return {
+    upvotes: Math.max(0, counts.upvotes + delta(from, "up")),
+    downvotes: Math.max(0, counts.downvotes + delta(from, "down")),
+  };
+};